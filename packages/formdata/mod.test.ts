@@ -1,6 +1,6 @@
 import { expect } from "jsr:@std/expect";
 import { describe, it } from "jsr:@std/testing/bdd";
-import { decode, encode } from "./mod.ts";
+import { decode, encode, type KeySyntax, keySyntaxes } from "./mod.ts";
 
 describe("encode", () => {
   it("should handle numbers", () => {
@@ -162,3 +162,141 @@ describe("decode", () => {
     expect(actual).toEqual(expected);
   });
 });
+
+describe("key syntax", () => {
+  const data = {
+    name: "Alice",
+    profile: { age: "30", links: [{ url: "a" }, { url: "b" }] },
+    tags: ["x", "y", "z"],
+  };
+
+  const keysOf = (formData: FormData) => Array.from(formData.keys());
+
+  it("should round-trip brackets", () => {
+    const formData = encode(data, { keys: "brackets" });
+    expect(keysOf(formData)).toEqual([
+      "name",
+      "profile[age]",
+      "profile[links][0][url]",
+      "profile[links][1][url]",
+      "tags[0]",
+      "tags[1]",
+      "tags[2]",
+    ]);
+    expect(decode(formData, { keys: "brackets" })).toEqual(data);
+  });
+
+  it("should round-trip dots", () => {
+    const formData = encode(data, { keys: "dots" });
+    expect(keysOf(formData)).toEqual([
+      "name",
+      "profile.age",
+      "profile.links.0.url",
+      "profile.links.1.url",
+      "tags.0",
+      "tags.1",
+      "tags.2",
+    ]);
+    expect(decode(formData, { keys: "dots" })).toEqual(data);
+  });
+
+  it("should round-trip push arrays", () => {
+    const formData = encode(data, { keys: "push" });
+    expect(keysOf(formData)).toEqual([
+      "name",
+      "profile[age]",
+      "profile[links][0][url]",
+      "profile[links][1][url]",
+      "tags[]",
+      "tags[]",
+      "tags[]",
+    ]);
+    expect(decode(formData, { keys: "push" })).toEqual(data);
+  });
+
+  it("should round-trip repeated keys", () => {
+    const file = new Blob(["a"]);
+    const formData = encode({ ...data, files: [file, file] }, {
+      keys: "repeat",
+    });
+    expect(keysOf(formData)).toEqual([
+      "name",
+      "profile[age]",
+      "profile[links][0][url]",
+      "profile[links][1][url]",
+      "tags",
+      "tags",
+      "tags",
+      "files",
+      "files",
+    ]);
+    const { files, ...rest } = decode(formData, { keys: "repeat" });
+    expect(rest).toEqual(data);
+    expect(files).toHaveLength(2);
+    expect((files as Blob[]).every((f) => f instanceof Blob)).toBe(true);
+  });
+
+  it("should keep the last value of repeated keys unless they repeat", () => {
+    const formData = new FormData();
+    formData.append("tag", "x");
+    formData.append("tag", "y");
+    expect(decode(formData)).toEqual({ tag: "y" });
+    expect(decode(formData, { keys: "repeat" })).toEqual({ tag: ["x", "y"] });
+  });
+
+  it("should not treat inherited members as repeated keys", () => {
+    const formData = new FormData();
+    formData.append("user[toString]", "x");
+    formData.append("user[constructor]", "y");
+    expect(decode(formData, { keys: "repeat" })).toEqual({
+      user: { toString: "x", constructor: "y" },
+    });
+  });
+
+  it("should group pushed objects like Rails", () => {
+    const formData = new FormData();
+    formData.append("items[][name]", "a");
+    formData.append("items[][qty]", "1");
+    formData.append("items[][name]", "b");
+    expect(decode(formData, { keys: "push" })).toEqual({
+      items: [{ name: "a", qty: "1" }, { name: "b" }],
+    });
+  });
+
+  it("should not start a new pushed object for inherited members", () => {
+    const formData = new FormData();
+    formData.append("items[][name]", "a");
+    formData.append("items[][constructor]", "b");
+    expect(decode(formData, { keys: "push" })).toEqual({
+      items: [{ name: "a", constructor: "b" }],
+    });
+  });
+
+  it("should drop empty segments unless pushing", () => {
+    const formData = new FormData();
+    formData.append("tags[]", "a");
+    formData.append("tags[]", "b");
+    formData.append("list[0][]", "p");
+    formData.append("list[0][]", "q");
+    expect(decode(formData)).toEqual({ tags: "b", list: ["q"] });
+    expect(decode(formData, { keys: "push" })).toEqual({
+      tags: ["a", "b"],
+      list: [["p", "q"]],
+    });
+  });
+
+  it("should accept custom syntaxes", () => {
+    const colons: KeySyntax = {
+      join: (segments) => segments.join(":"),
+      split: (key) => key.split(":"),
+      arrays: "index",
+    };
+    const formData = encode(data, { keys: colons });
+    expect(formData.get("profile:links:1:url")).toBe("b");
+    expect(decode(formData, { keys: colons })).toEqual(data);
+    const mixed = { ...keySyntaxes.dots, arrays: "repeat" } as const;
+    expect(decode(encode(data, { keys: mixed }), { keys: mixed })).toEqual(
+      data,
+    );
+  });
+});
@@ -11,57 +11,172 @@ export function isObject(input: unknown): input is { [key: string]: unknown } {
   return proto === null || proto === Object.prototype; // Check if it's a plain object.
 }
 
+/**
+ * How arrays of strings, numbers, booleans and blobs are written:
+ *
+ * - `"index"`: One key per item, ending with its index (e.g. `tags[0]`, `tags[1]`).
+ * - `"push"`: One key per item, ending with an empty segment (e.g. `tags[]`), as expected by Rails and PHP.
+ * - `"repeat"`: The same key for every item (e.g. `tag=x&tag=y`), as sent by checkboxes and multiple file inputs.
+ *
+ * Arrays of objects or arrays are always written with indices.
+ */
+export type ArrayNotation = "index" | "push" | "repeat";
+
+/**
+ * Describes how the path of a nested value is written as a `FormData` key and read back.
+ * Pass a custom implementation to `encode()` and `decode()` to support other notations.
+ */
+export interface KeySyntax {
+  /**
+   * Joins the segments of a path into a key (e.g. `["a", "b", "0"]` -> `"a[b][0]"`).
+   * An empty segment stands for an item pushed onto an array.
+   *
+   * @param {readonly string[]} segments - The segments of the path.
+   * @returns {string} - The key.
+   */
+  join(segments: readonly string[]): string;
+
+  /**
+   * Splits a key into the segments of its path (e.g. `"a[b][0]"` -> `["a", "b", "0"]`).
+   * An empty segment stands for an item pushed onto an array.
+   *
+   * @param {string} key - The key.
+   * @returns {string[]} - The segments of the path.
+   */
+  split(key: string): string[];
+
+  /**
+   * How arrays of values are written, and whether repeated keys are decoded as arrays (`"repeat"`).
+   */
+  readonly arrays: ArrayNotation;
+}
+
+/**
+ * The name of a built-in key syntax:
+ *
+ * - `"brackets"`: `a[b][0]` (default).
+ * - `"dots"`: `a.b.0`.
+ * - `"push"`: `a[b][]` for arrays of values, brackets otherwise.
+ * - `"repeat"`: Repeated keys for arrays of values, brackets otherwise.
+ */
+export type KeyStyle = "brackets" | "dots" | "push" | "repeat";
+
+/**
+ * A regex to match the segments of a bracket key (e.g., "foo[bar][]" -> "foo", "[bar]", "[]").
+ */
+const BRACKET_SEGMENT_REGEX = /\[([^\[\]]*)\]|[^\[\]]+/g;
+
+/**
+ * The bracket notation, e.g. `a[b][0]`.
+ */
+const BRACKETS: KeySyntax = {
+  join: (segments) =>
+    segments.map((segment, i) => i ? `[${segment}]` : segment).join(""),
+  split: (key) =>
+    Array.from(
+      key.matchAll(BRACKET_SEGMENT_REGEX),
+      (match) => match[1] ?? match[0],
+    ),
+  arrays: "index",
+};
+
+/**
+ * The built-in key syntaxes, by name. Spread one to combine it with another array notation,
+ * e.g. `{ ...keySyntaxes.dots, arrays: "repeat" }`.
+ */
+export const keySyntaxes: { readonly [K in KeyStyle]: KeySyntax } = {
+  brackets: BRACKETS,
+  dots: {
+    join: (segments) =>
+      segments.map((segment, i) =>
+        "" === segment ? "[]" : i ? `.${segment}` : segment
+      ).join(""),
+    split: (key) =>
+      key.split(".").filter((part) => part).flatMap((part) =>
+        part.endsWith("[]") ? [part.slice(0, -2), ""] : [part]
+      ),
+    arrays: "index",
+  },
+  push: { ...BRACKETS, arrays: "push" },
+  repeat: { ...BRACKETS, arrays: "repeat" },
+};
+
+/**
+ * Resolves the `keys` option of `encode()` and `decode()`.
+ *
+ * @param {KeyStyle | KeySyntax} [keys="brackets"] - The name of a built-in syntax, or a custom one.
+ * @returns {KeySyntax} - The key syntax.
+ */
+function resolveKeySyntax(keys: KeyStyle | KeySyntax = "brackets"): KeySyntax {
+  return typeof keys === "string" ? keySyntaxes[keys] : keys;
+}
+
+/**
+ * Options for `encode()`.
+ */
+export interface EncodeOptions {
+  /**
+   * How keys are written: the name of a built-in syntax, or a custom one.
+   * @default "brackets"
+   */
+  readonly keys?: KeyStyle | KeySyntax;
+}
+
 /**
  * Encodes an object into a `FormData` object for use in HTTP requests.
  *
  * @template T
  * @param {T} data - The object to encode. All keys and values will be serialized.
+ * @param {EncodeOptions} [options] - Optional settings for how keys are written.
  * @throws {Error} If the provided data is not an object.
  * @returns {FormData} - A `FormData` instance with the serialized data.
  */
 export function encode<T extends { [key: string]: unknown }>(
   data: T,
+  options: EncodeOptions = {},
 ): FormData {
   if (!isObject(data)) {
     throw new Error("The provided data must be a plain object.");
   }
 
+  const syntax = resolveKeySyntax(options.keys);
   const formData = new FormData();
 
   /**
    * Recursively appends keys and values to the `FormData` object.
    *
-   * @param {string} key - The current key (or path) for the value.
+   * @param {string[]} path - The segments of the current key (or path) for the value.
    * @param {unknown} value - The value to append. Supports nested objects, arrays, numbers, booleans, and blobs.
    */
-  function append(key: string, value: unknown): void {
+  function append(path: string[], value: unknown): void {
     if (isObject(value)) {
       // Handle nested objects by recursively calling `append`.
-      Object.entries(value).forEach(([k, v]) => append(`${key}[${k}]`, v));
+      Object.entries(value).forEach(([k, v]) => append([...path, k], v));
     } else if (Array.isArray(value)) {
-      // Handle arrays by treating each item as a nested value.
-      value.forEach((v, k) => append(`${key}[${k}]`, v));
+      // Arrays of values use the configured notation; arrays of containers always use indices.
+      const flat = syntax.arrays !== "index" &&
+        value.every((v) => !isObject(v) && !Array.isArray(v));
+      value.forEach((v, k) => {
+        if (!flat) append([...path, String(k)], v);
+        else if (syntax.arrays === "push") append([...path, ""], v);
+        else append(path, v);
+      });
     } else if (value instanceof Blob || typeof value === "string") {
       // Directly append strings and Blobs.
-      formData.append(key, value);
+      formData.append(syntax.join(path), value);
     } else if (typeof value === "number" || typeof value === "boolean") {
       // Convert numbers and booleans to strings for compatibility.
-      formData.append(key, String(value));
+      formData.append(syntax.join(path), String(value));
     }
     // Skip unsupported data types.
   }
 
   // Start encoding the top-level object.
-  Object.entries(data).forEach(([key, value]) => append(key, value));
+  Object.entries(data).forEach(([key, value]) => append([key], value));
 
   return formData;
 }
 
-/**
- * A regex to split keys by brackets for nested object notation (e.g., "foo[bar]" -> ["foo", "bar"]).
- */
-const KEY_REGEX = /[\[\]]+/;
-
 /**
  * A regex to check if a string is purely numeric.
  */
@@ -104,24 +219,46 @@ export type DecodeArray = DecodeValue[];
 
 export type EmptyStringStrategy = "set null" | "set undefined" | "preserve";
 
+/**
+ * Options for `decode()`.
+ */
+export interface DecodeOptions {
+  /**
+   * How empty string values are handled.
+   * @default "preserve"
+   */
+  readonly emptyString?: EmptyStringStrategy;
+
+  /**
+   * How keys are read: the name of a built-in syntax, or a custom one. Empty segments (e.g. `tags[]`) only push
+   * onto arrays with the `"push"` notation and repeated keys are only collected into arrays with the `"repeat"`
+   * notation; otherwise empty segments are dropped and the last value wins.
+   * @default "brackets"
+   */
+  readonly keys?: KeyStyle | KeySyntax;
+}
+
 /**
  * Decodes a `FormData` object into a nested JavaScript object.
  *
  * @param {FormData} formData - The `FormData` instance to decode.
- * @param {object} [options] - Optional settings for how to handle empty strings.
+ * @param {DecodeOptions} [options] - Optional settings for how to handle empty strings and keys.
  * @param {"set null" | "set undefined" | "preserve"} [options.emptyString="preserve"] -
  *        Determines how empty string values should be handled:
  *        - `"set null"`: Empty strings will be replaced with `null`.
  *        - `"set undefined"`: Empty strings will not be included in the output.
  *        - `"preserve"`: Empty strings will be preserved as-is.
+ * @param {KeyStyle | KeySyntax} [options.keys="brackets"] - Determines how keys are split into paths.
  * @returns {Record<string, unknown>} - A nested object representing the decoded `FormData`.
  */
 export function decode(
   formData: FormData,
-  options: { emptyString?: EmptyStringStrategy } = {},
+  options: DecodeOptions = {},
 ): DecodeObject {
   const { emptyString = "preserve" } = options; // Default behavior for empty strings.
+  const syntax = resolveKeySyntax(options.keys);
   const result = Object.create(null) as DecodeObject; // Root object for decoding.
+  const repeated = new WeakSet<unknown[]>(); // Arrays collected from repeated keys.
 
   /**
    * Recursively assigns a value to the target object based on the given keys.
@@ -137,47 +274,77 @@ export function decode(
   ): void {
     const len = keys.length;
     let current = target; // Pointer to the current level in the nested object.
+    const empty = typeof value === "string" && value.trim() === "";
+    const assigned = empty ? (emptyString === "set null" ? null : "") : value;
 
     for (let i = 0; i < len; i++) {
       const key = keys[i];
       const isLast = i === len - 1; // Check if this is the last key in the path.
+      // An empty segment pushes onto an array.
+      const array = key === "" && Array.isArray(current)
+        ? current as unknown[]
+        : undefined;
 
       if (isLast) {
-        if (typeof value === "string" && value.trim() === "") {
-          if (emptyString === "set null") {
-            current[key] = null;
-          } else if (emptyString === "set undefined") {
-            // Skip assignment
-          } else {
-            current[key] = "";
+        if (empty && emptyString === "set undefined") {
+          // Skip assignment
+          return;
+        }
+        if (array) {
+          array.push(assigned);
+          return;
+        }
+        const existing = current[key];
+        if (syntax.arrays === "repeat" && Object.hasOwn(current, key)) {
+          // Collect repeated keys into an array.
+          if (Array.isArray(existing) && repeated.has(existing)) {
+            existing.push(assigned);
+            return;
           }
-        } else {
-          if (
-            key in current &&
-            typeof current[key] === "object" &&
-            current[key] !== null
-          ) {
-            // If key exists as an object, ignore the new primitive value
+          if (!isObject(existing) && !Array.isArray(existing)) {
+            const list = [existing, assigned];
+            repeated.add(list);
+            current[key] = list;
             return;
           }
-          current[key] = value;
         }
+        if (!empty && typeof existing === "object" && existing !== null) {
+          // If key exists as an object, ignore the new primitive value
+          return;
+        }
+        current[key] = assigned;
       } else {
-        if (
-          !(key in current) ||
-          typeof current[key] !== "object" ||
-          current[key] === null
-        ) {
-          current[key] = isNumeric(keys[i + 1]) ? [] : {};
+        const next = keys[i + 1];
+        const create = () => isNumeric(next) || next === "" ? [] : {};
+        if (array) {
+          // Keep filling the last pushed object until one of its keys repeats, like Rails.
+          let last = array[array.length - 1];
+          if (!isObject(last) || next === "" || Object.hasOwn(last, next)) {
+            last = create();
+            array.push(last);
+          }
+          current = last as Record<string, unknown>;
+        } else {
+          if (
+            !Object.hasOwn(current, key) ||
+            typeof current[key] !== "object" ||
+            current[key] === null
+          ) {
+            current[key] = create();
+          }
+          current = current[key] as Record<string, unknown>;
         }
-        current = current[key] as Record<string, unknown>;
       }
     }
   }
 
   // Iterate over all entries in the FormData instance.
   for (const [rawKey, value] of formData.entries()) {
-    const keys = rawKey.split(KEY_REGEX).filter((key) => key); // Split key path and remove empty strings.
+    const segments = syntax.split(rawKey); // Split key path.
+    // Only the push notation gives empty segments a meaning; the others drop them.
+    const keys = syntax.arrays === "push"
+      ? segments
+      : segments.filter((key) => key);
     setValue(result, keys, value); // Assign the value to the nested object.
   }
 
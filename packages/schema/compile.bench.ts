@@ -0,0 +1,66 @@
+import { compile } from "./compile.ts";
+import {
+  array,
+  boolean,
+  defaulted,
+  email,
+  int,
+  maybe,
+  min,
+  minLength,
+  number,
+  object,
+  picklist,
+  string,
+} from "./mod.ts";
+
+const order = object({
+  id: int(min(1)),
+  customer: object({
+    name: string(minLength(1)),
+    email: string(email()),
+    vip: maybe(boolean()),
+  }),
+  status: defaulted(picklist(["pending", "paid", "shipped"]), "pending"),
+  items: array(object({
+    sku: string(minLength(3)),
+    qty: int(min(1)),
+    price: number(min(0)),
+  })),
+});
+
+const valid = {
+  id: 42,
+  customer: { name: "Ada Lovelace", email: "ada@example.com", vip: true },
+  status: "paid",
+  items: Array.from({ length: 10 }, (_, i) => ({
+    sku: `SKU-${i}`,
+    qty: i + 1,
+    price: i * 1.5,
+  })),
+};
+
+const invalid = { ...valid, items: [...valid.items, { sku: "X", qty: 0 }] };
+
+const compiled = compile(order);
+const closures = compile(order, { codegen: false });
+
+Deno.bench("interpreted", { group: "valid", baseline: true }, () => {
+  order.safeParse(valid);
+});
+
+Deno.bench("compiled", { group: "valid" }, () => {
+  compiled.safeParse(valid);
+});
+
+Deno.bench("compiled without codegen", { group: "valid" }, () => {
+  closures.safeParse(valid);
+});
+
+Deno.bench("interpreted", { group: "invalid", baseline: true }, () => {
+  order.safeParse(invalid);
+});
+
+Deno.bench("compiled", { group: "invalid" }, () => {
+  compiled.safeParse(invalid);
+});
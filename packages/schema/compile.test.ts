@@ -0,0 +1,182 @@
+import { expect } from "jsr:@std/expect";
+import { describe, it } from "jsr:@std/testing/bdd";
+import { compile } from "./compile.ts";
+import {
+  array,
+  catchall,
+  date,
+  defaulted,
+  discriminatedUnion,
+  email,
+  int,
+  lazy,
+  literal,
+  map,
+  maybe,
+  min,
+  minLength,
+  number,
+  object,
+  passthrough,
+  picklist,
+  pipe,
+  record,
+  required,
+  type Schema,
+  SchemaError,
+  set,
+  strict,
+  string,
+  tuple,
+  union,
+} from "./mod.ts";
+
+type Node = { name: string; children: Node[] };
+const node: Schema<Node> = object({
+  name: string(),
+  children: array(lazy(() => node)),
+});
+
+const user = object({
+  id: int(min(1)),
+  name: string(minLength(1)),
+  email: maybe(string(email())),
+  role: defaulted(picklist(["admin", "user"]), "user"),
+  tags: array(string()),
+});
+
+const cases: [string, Schema, unknown[]][] = [
+  ["primitives", union([string(), number(), literal(null)]), [
+    "a",
+    1,
+    null,
+    NaN,
+    true,
+  ]],
+  ["objects", user, [
+    { id: 1, name: "Ada", tags: ["x"], extra: true },
+    { id: 0, name: "", email: "nope", role: "root", tags: [1] },
+    { id: 1, name: "Ada", email: null, role: null, tags: [] },
+    Object.create({ id: 1 }),
+    [],
+  ]],
+  ["unknown keys", object({ a: strict(object({ b: number() })) }), [
+    { a: { b: 1 } },
+    { a: { b: 1, c: 2 } },
+  ]],
+  [
+    "passthrough and catchall",
+    object({
+      a: passthrough(object({ b: number() })),
+      c: catchall(object({}), number()),
+    }),
+    [
+      { a: { b: 1, x: "y" }, c: { d: 1 } },
+      { a: {}, c: { d: "1" } },
+    ],
+  ],
+  ["required keys", required(object({ a: maybe(number()) })), [
+    { a: 1 },
+    {},
+  ]],
+  [
+    "discriminated unions",
+    discriminatedUnion("type", [
+      object({ type: literal("a"), a: number() }),
+      object({ type: literal("b"), b: string() }),
+    ]),
+    [
+      { type: "a", a: 1 },
+      { type: "b", b: 1 },
+      { type: "c" },
+    ],
+  ],
+  [
+    "collections",
+    object({
+      point: tuple([number(), maybe(number())], string()),
+      scores: record(string(minLength(2)), number()),
+      lookup: map(string(), date()),
+      ids: set(int()),
+    }),
+    [
+      {
+        point: [1, 2, "a"],
+        scores: { ab: 1 },
+        lookup: new Map([["a", new Date(0)]]),
+        ids: new Set([1]),
+      },
+      {
+        point: [1],
+        scores: { a: 1 },
+        lookup: new Map([["a", new Date(NaN)]]),
+        ids: new Set([1.5]),
+      },
+    ],
+  ],
+  [
+    "refinements and pipes",
+    object({
+      range: object({ start: number(), end: number() }).refine(
+        ({ start, end }) => start < end,
+        "Start must be before end",
+      ),
+      slug: pipe(string(), string().transform((value) => value.toLowerCase())),
+    }),
+    [
+      { range: { start: 1, end: 2 }, slug: "ABC" },
+      { range: { start: 2, end: 1 }, slug: 1 },
+    ],
+  ],
+  ["recursive schemas", node, [
+    { name: "a", children: [{ name: "b", children: [] }] },
+    { name: "a", children: [{ name: 1, children: [] }] },
+  ]],
+];
+
+for (const codegen of [true, false]) {
+  describe(`compile() with codegen ${codegen ? "enabled" : "disabled"}`, () => {
+    it("should report whether code was generated", () => {
+      expect(compile(string(), { codegen }).codegen).toBe(codegen);
+    });
+
+    for (const [name, schema, inputs] of cases) {
+      it(`should match safeParse() for ${name}`, () => {
+        const compiled = compile(schema, { codegen });
+        for (const input of inputs) {
+          expect(compiled.safeParse(input)).toEqual(schema.safeParse(input));
+          expect(compiled.safeParse(input, { abortEarly: false })).toEqual(
+            schema.safeParse(input, { abortEarly: false }),
+          );
+        }
+      });
+    }
+
+    it("should reject cyclic input", () => {
+      const cyclic = { name: "a", children: [] as unknown[] };
+      cyclic.children.push(cyclic);
+      const compiled = compile(node, { codegen });
+      expect(compiled.safeParse(cyclic)).toEqual(node.safeParse(cyclic));
+    });
+
+    it("should throw a SchemaError from parse()", () => {
+      const compiled = compile(user, { codegen });
+      expect(compiled.parse({ id: 1, name: "Ada", tags: [] })).toEqual({
+        id: 1,
+        name: "Ada",
+        email: undefined,
+        role: "user",
+        tags: [],
+      });
+      expect(() => compiled.parse({})).toThrow(SchemaError);
+    });
+
+    it("should throw for async refinements", () => {
+      const schema = object({
+        name: string().refine(async () => await Promise.resolve(true)),
+      });
+      expect(() => compile(schema, { codegen }).safeParse({ name: "a" }))
+        .toThrow("use parseAsync() or safeParseAsync()");
+    });
+  });
+}
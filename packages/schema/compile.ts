@@ -0,0 +1,558 @@
+import {
+  type ArraySchema,
+  type CheckedSchema,
+  type DefaultedSchema,
+  type DiscriminatedUnionSchema,
+  type InferOutput,
+  isObject,
+  type LazySchema,
+  type Literal,
+  type LiteralSchema,
+  type MapSchema,
+  type ObjectSchema,
+  type ParseOptions,
+  type PicklistSchema,
+  type PipeSchema,
+  type RecordSchema,
+  type Result,
+  type Schema,
+  SchemaError,
+  type SetSchema,
+  type TupleSchema,
+  type UnionSchema,
+  type WrapperSchema,
+} from "./mod.ts";
+
+/**
+ * Options that control how `compile()` builds a validator.
+ */
+export interface CompileOptions {
+  /**
+   * Whether to generate specialized JavaScript with `new Function()`. Set to `false` for runtimes that forbid code
+   * generation; it is also skipped automatically when `new Function()` throws (e.g. under a strict Content Security
+   * Policy), in which case the validator is assembled from closures instead.
+   * @default true
+   */
+  readonly codegen?: boolean;
+}
+
+/**
+ * Represents a schema compiled to a specialized validator.
+ * @template TOutput - The type of the output after successful validation.
+ */
+export interface CompiledSchema<TOutput> {
+  /**
+   * The schema the validator was compiled from.
+   */
+  readonly schema: Schema<TOutput>;
+
+  /**
+   * Whether the validator was generated with `new Function()`, as opposed to assembled from closures.
+   */
+  readonly codegen: boolean;
+
+  /**
+   * Safely parses the input data and returns a result object. Produces the same result as `schema.safeParse()`.
+   * @param input - The input data to be validated.
+   * @param options - Options that control how the issues of invalid input are collected.
+   * @returns A result object containing either the validated output or a list of issues.
+   * @throws {Error} If the schema reaches an async refinement or transform.
+   */
+  safeParse(input: unknown, options?: ParseOptions): Result<TOutput>;
+
+  /**
+   * Parses the input data and returns the validated output. Produces the same output as `schema.parse()`.
+   * @param input - The input data to be validated.
+   * @param options - Options that control how the issues of invalid input are collected.
+   * @returns The validated output.
+   * @throws {SchemaError} If the input data is invalid.
+   * @throws {Error} If the schema reaches an async refinement or transform.
+   */
+  parse(input: unknown, options?: ParseOptions): TOutput;
+}
+
+/**
+ * Returned by a fast validator when the input is invalid.
+ */
+const FAIL: unique symbol = Symbol("FAIL");
+
+/**
+ * A validator that returns the output for valid input and `FAIL` otherwise, without building issues.
+ */
+type Fast = (input: unknown) => unknown;
+
+/**
+ * Compiles a schema to a specialized validator for hot paths.
+ *
+ * The validator only checks whether the input is valid and builds the output, without allocating a result or issues
+ * per level. Invalid input is handed to the schema itself, so issues are identical to those of `safeParse()`.
+ * Refinements, transforms and coercions run through the schema as well. Only synchronous schemas are supported.
+ *
+ * @template T - The schema type.
+ * @param schema - The schema to compile.
+ * @param options - Options that control how the validator is built.
+ * @returns The compiled schema.
+ */
+export function compile<T extends Schema>(
+  schema: T,
+  options: CompileOptions = {},
+): CompiledSchema<InferOutput<T>> {
+  type Output = InferOutput<T>;
+  const fast = options.codegen !== false && canGenerate()
+    ? generate(schema)
+    : undefined;
+  const validate = fast ?? assemble(schema, new Map());
+
+  const safeParse = (
+    input: unknown,
+    options?: ParseOptions,
+  ): Result<Output> => {
+    const value = validate(input);
+    if (value !== FAIL) return { value: value as Output };
+    return schema.safeParse(input, options) as Result<Output>;
+  };
+
+  return {
+    schema: schema as Schema<Output>,
+    codegen: !!fast,
+    safeParse,
+    parse: (input, options) => {
+      const result = safeParse(input, options);
+      if (result.issues) throw new SchemaError(result.issues);
+      return result.value;
+    },
+  };
+}
+
+/**
+ * Checks whether the runtime allows generating code with `new Function()`.
+ * @returns True if code generation is allowed.
+ */
+function canGenerate(): boolean {
+  try {
+    return new Function("return true")();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validates the input with the schema itself, for kinds the compiler does not specialize.
+ * @param schema - The schema to delegate to.
+ * @returns A fast validator backed by the schema.
+ */
+function delegate(schema: Schema): Fast {
+  return (input) => {
+    const result = schema["~validate"](input);
+    if (result instanceof Promise) {
+      result.catch(() => {});
+      throw new Error(
+        "Schema contains async validation; use parseAsync() or safeParseAsync() instead",
+      );
+    }
+    return result.issues ? FAIL : result.value;
+  };
+}
+
+/**
+ * Returns the predicate a primitive schema applies before running its checks.
+ * @param schema - The schema.
+ * @returns The predicate, or undefined if the schema is not a checked primitive.
+ */
+function primitiveTest(
+  schema: Schema,
+): ((input: unknown) => boolean) | undefined {
+  switch (schema.kind) {
+    case "string":
+      return (input) => "string" === typeof input;
+    case "number":
+      return (input) => "number" === typeof input && Number.isFinite(input);
+    case "int":
+      return Number.isInteger;
+    case "bigint":
+      return (input) => "bigint" === typeof input;
+    case "date":
+      return (input) => input instanceof Date && !Number.isNaN(input.getTime());
+  }
+}
+
+/**
+ * Assembles a fast validator from closures.
+ * @param schema - The schema to compile.
+ * @param cache - The validators already assembled, so that shared and recursive schemas are compiled once.
+ * @returns The fast validator.
+ */
+function assemble(schema: Schema, cache: Map<Schema, Fast>): Fast {
+  let fast = cache.get(schema);
+  if (!fast) {
+    // Recursive schemas only reach themselves through lazy(), which compiles its schema on first use.
+    fast = assembleNode(schema, (child) => assemble(child, cache));
+    cache.set(schema, fast);
+  }
+  return fast;
+}
+
+/**
+ * Assembles the fast validator of a single schema.
+ * @param schema - The schema to compile.
+ * @param child - Compiles a child schema.
+ * @returns The fast validator.
+ */
+function assembleNode(schema: Schema, child: (schema: Schema) => Fast): Fast {
+  const test = primitiveTest(schema);
+  if (test) {
+    const { checks } = schema as CheckedSchema<unknown>;
+    return (input) => {
+      if (!test(input)) return FAIL;
+      for (const check of checks) if (!check.test(input)) return FAIL;
+      return input;
+    };
+  }
+
+  switch (schema.kind) {
+    case "unknown":
+      return (input) => input;
+    case "never":
+      return () => FAIL;
+    case "boolean":
+      return (input) => "boolean" === typeof input ? input : FAIL;
+    case "literal": {
+      const { value } = schema as LiteralSchema<Literal>;
+      return (input) => input === value ? value : FAIL;
+    }
+    case "picklist":
+    case "native_enum": {
+      const allowed = new Set<unknown>(
+        (schema as PicklistSchema<string>).options,
+      );
+      return (input) => allowed.has(input) ? input : FAIL;
+    }
+    case "array": {
+      const item = child((schema as ArraySchema<Schema>).item);
+      return (input) => {
+        if (!Array.isArray(input)) return FAIL;
+        const output = new Array(input.length);
+        for (let i = 0; i < input.length; i++) {
+          const value = item(input[i]);
+          if (value === FAIL) return FAIL;
+          output[i] = value;
+        }
+        return output;
+      };
+    }
+    case "tuple": {
+      const { items, rest } = schema as TupleSchema<Schema[], Schema>;
+      const fastItems = items.map(child);
+      const fastRest = rest && child(rest);
+      return (input) => {
+        if (!Array.isArray(input)) return FAIL;
+        if (!fastRest && input.length > items.length) return FAIL;
+        const output = new Array(Math.max(input.length, items.length));
+        for (let i = 0; i < output.length; i++) {
+          const value = (fastItems[i] ?? fastRest)(input[i]);
+          if (value === FAIL) return FAIL;
+          output[i] = value;
+        }
+        return output;
+      };
+    }
+    case "object": {
+      const { shape, unknownKeys, catchall } = schema as ObjectSchema<
+        { [key: string]: unknown },
+        unknown,
+        unknown
+      >;
+      const keys = Object.keys(shape);
+      const fields = keys.map((key) => child(shape[key]));
+      const known = new Set(keys);
+      const rest = catchall && child(catchall);
+      return (input) => {
+        if (!isObject(input)) return FAIL;
+        const output = Object.create(null);
+        for (let i = 0; i < keys.length; i++) {
+          const value = fields[i](input[keys[i]]);
+          if (value === FAIL) return FAIL;
+          output[keys[i]] = value;
+        }
+        if ("strip" === unknownKeys) return output;
+        for (const key of Object.keys(input)) {
+          if (known.has(key)) continue;
+          if ("strict" === unknownKeys) return FAIL;
+          const value = rest ? rest(input[key]) : input[key];
+          if (value === FAIL) return FAIL;
+          output[key] = value;
+        }
+        return output;
+      };
+    }
+    case "record": {
+      const { key, value } = schema as RecordSchema<Schema<string>, Schema>;
+      const fastKey = child(key);
+      const fastValue = child(value);
+      return (input) => {
+        if (!isObject(input)) return FAIL;
+        const output = Object.create(null);
+        for (const name of Object.keys(input)) {
+          const outputKey = fastKey(name);
+          if (outputKey === FAIL) return FAIL;
+          const outputValue = fastValue(input[name]);
+          if (outputValue === FAIL) return FAIL;
+          output[outputKey as string] = outputValue;
+        }
+        return output;
+      };
+    }
+    case "map": {
+      const { key, value } = schema as MapSchema<Schema, Schema>;
+      const fastKey = child(key);
+      const fastValue = child(value);
+      return (input) => {
+        if (!(input instanceof Map)) return FAIL;
+        const output = new Map();
+        for (const [name, item] of input) {
+          const outputKey = fastKey(name);
+          if (outputKey === FAIL) return FAIL;
+          const outputValue = fastValue(item);
+          if (outputValue === FAIL) return FAIL;
+          output.set(outputKey, outputValue);
+        }
+        return output;
+      };
+    }
+    case "set": {
+      const item = child((schema as SetSchema<Schema>).item);
+      return (input) => {
+        if (!(input instanceof Set)) return FAIL;
+        const output = new Set();
+        for (const value of input) {
+          const outputValue = item(value);
+          if (outputValue === FAIL) return FAIL;
+          output.add(outputValue);
+        }
+        return output;
+      };
+    }
+    case "maybe": {
+      const wrapped = child((schema as WrapperSchema<Schema>).wrapped);
+      return (input) =>
+        null === input || undefined === input ? undefined : wrapped(input);
+    }
+    case "defaulted": {
+      const { wrapped, default: value } = schema as DefaultedSchema<Schema>;
+      const fastWrapped = child(wrapped);
+      return (input) =>
+        null === input || undefined === input ? value : fastWrapped(input);
+    }
+    case "required": {
+      const wrapped = child((schema as WrapperSchema<Schema>).wrapped);
+      return (input) =>
+        null === input || undefined === input ? FAIL : wrapped(input);
+    }
+    case "brand":
+      return child((schema as WrapperSchema<Schema>).wrapped);
+    case "union": {
+      const options = (schema as UnionSchema<Schema[]>).options.map(child);
+      return (input) => {
+        for (const option of options) {
+          const value = option(input);
+          if (value !== FAIL) return value;
+        }
+        return FAIL;
+      };
+    }
+    case "discriminated_union": {
+      const { key, options } = schema as DiscriminatedUnionSchema<
+        string,
+        ObjectSchema<{ [key: string]: Literal }>[]
+      >;
+      const lookup = new Map<unknown, Fast>();
+      for (const option of options) {
+        const discriminator = option.shape[key] as LiteralSchema<Literal>;
+        lookup.set(discriminator.value, child(option));
+      }
+      return (input) => {
+        if (!isObject(input)) return FAIL;
+        const option = lookup.get(input[key]);
+        return option ? option(input) : FAIL;
+      };
+    }
+    case "pipe": {
+      const { first, second } = schema as PipeSchema<Schema, Schema>;
+      const fastFirst = child(first);
+      const fastSecond = child(second);
+      return (input) => {
+        const value = fastFirst(input);
+        return value === FAIL ? FAIL : fastSecond(value);
+      };
+    }
+    case "lazy": {
+      const { getter } = schema as LazySchema<Schema>;
+      const ancestors = new Set<unknown>();
+      let resolved: Fast | undefined;
+      return (input) => {
+        resolved ??= child(getter());
+        if ("object" !== typeof input || null === input) return resolved(input);
+        if (ancestors.has(input)) return FAIL;
+        ancestors.add(input);
+        try {
+          return resolved(input);
+        } finally {
+          ancestors.delete(input);
+        }
+      };
+    }
+    default:
+      return delegate(schema);
+  }
+}
+
+/**
+ * Generates a fast validator as specialized JavaScript. Objects, arrays and primitives are inlined; other kinds are
+ * assembled from closures and called from the generated code.
+ * @param schema - The schema to compile.
+ * @returns The fast validator.
+ */
+function generate(schema: Schema): Fast {
+  const refs: unknown[] = [];
+  const cache = new Map<Schema, Fast>();
+  let id = 0;
+
+  const ref = (value: unknown): string => {
+    refs.push(value);
+    return `r${refs.length - 1}`;
+  };
+
+  /**
+   * Emits the statements that validate the value of `input`, returning `FAIL` from the generated function on failure.
+   * @returns The expression holding the output.
+   */
+  const emit = (schema: Schema, input: string, lines: string[]): string => {
+    const test = primitiveTest(schema);
+    if (test) {
+      const type = {
+        string: `"string" !== typeof ${input}`,
+        number: `"number" !== typeof ${input} || !Number.isFinite(${input})`,
+        int: `!Number.isInteger(${input})`,
+        bigint: `"bigint" !== typeof ${input}`,
+        date: `!(${input} instanceof Date) || Number.isNaN(${input}.getTime())`,
+      }[schema.kind as "string"];
+      lines.push(`if (${type}) return F;`);
+      for (const check of (schema as CheckedSchema<unknown>).checks) {
+        lines.push(`if (!${ref(check)}.test(${input})) return F;`);
+      }
+      return input;
+    }
+
+    const out = `v${id++}`;
+    switch (schema.kind) {
+      case "boolean":
+        lines.push(`if ("boolean" !== typeof ${input}) return F;`);
+        return input;
+      case "literal": {
+        const value = ref((schema as LiteralSchema<Literal>).value);
+        lines.push(`if (${input} !== ${value}) return F;`);
+        return value;
+      }
+      case "array": {
+        const i = `i${id++}`;
+        const item = (schema as ArraySchema<Schema>).item;
+        const body: string[] = [];
+        const value = emit(item, `${input}[${i}]`, body);
+        lines.push(
+          `if (!Array.isArray(${input})) return F;`,
+          `const ${out} = new Array(${input}.length);`,
+          `for (let ${i} = 0; ${i} < ${input}.length; ${i}++) {`,
+          ...body,
+          `${out}[${i}] = ${value};`,
+          `}`,
+        );
+        return out;
+      }
+      case "object": {
+        const { shape, unknownKeys, catchall } = schema as ObjectSchema<
+          { [key: string]: unknown },
+          unknown,
+          unknown
+        >;
+        const proto = `p${id++}`;
+        lines.push(
+          `if (null === ${input} || undefined === ${input}) return F;`,
+          `const ${proto} = Object.getPrototypeOf(${input});`,
+          `if (${proto} !== null && ${proto} !== Object.prototype) return F;`,
+          `const ${out} = Object.create(null);`,
+        );
+        const keys = Object.keys(shape);
+        for (const key of keys) {
+          const field = `f${id++}`;
+          lines.push(`const ${field} = ${input}[${JSON.stringify(key)}];`);
+          const value = emit(shape[key], field, lines);
+          lines.push(`${out}[${JSON.stringify(key)}] = ${value};`);
+        }
+        if ("strip" !== unknownKeys) {
+          const known = ref(new Set(keys));
+          const key = `k${id++}`;
+          lines.push(
+            `for (const ${key} of Object.keys(${input})) {`,
+            `if (${known}.has(${key})) continue;`,
+          );
+          if ("strict" === unknownKeys) {
+            lines.push(`return F;`);
+          } else if (catchall) {
+            const rest = ref(assemble(catchall, cache));
+            const value = `c${id++}`;
+            lines.push(
+              `const ${value} = ${rest}(${input}[${key}]);`,
+              `if (${value} === F) return F;`,
+              `${out}[${key}] = ${value};`,
+            );
+          } else {
+            lines.push(`${out}[${key}] = ${input}[${key}];`);
+          }
+          lines.push(`}`);
+        }
+        return out;
+      }
+      case "maybe":
+      case "defaulted": {
+        const { wrapped, default: fallback } = schema as DefaultedSchema<
+          Schema
+        >;
+        const body: string[] = [];
+        const value = emit(wrapped, input, body);
+        lines.push(
+          `let ${out};`,
+          `if (null === ${input} || undefined === ${input}) {`,
+          `${out} = ${"maybe" === schema.kind ? "undefined" : ref(fallback)};`,
+          `} else {`,
+          ...body,
+          `${out} = ${value};`,
+          `}`,
+        );
+        return out;
+      }
+      case "required": {
+        const { wrapped } = schema as WrapperSchema<Schema>;
+        lines.push(
+          `if (null === ${input} || undefined === ${input}) return F;`,
+        );
+        return emit(wrapped, input, lines);
+      }
+      default: {
+        const fast = ref(assemble(schema, cache));
+        lines.push(
+          `const ${out} = ${fast}(${input});`,
+          `if (${out} === F) return F;`,
+        );
+        return out;
+      }
+    }
+  };
+
+  const lines: string[] = [];
+  const output = emit(schema, "input", lines);
+  const names = refs.map((_, i) => `r${i}`);
+  const source = `return function validate(input) {\n${
+    lines.join("\n")
+  }\nreturn ${output};\n};`;
+  return new Function("F", ...names, source)(FAIL, ...refs);
+}
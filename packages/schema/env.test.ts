@@ -0,0 +1,120 @@
+import { expect } from "jsr:@std/expect";
+import { describe, it } from "jsr:@std/testing/bdd";
+import { EnvError, loadEnv, secret } from "./env.ts";
+import {
+  array,
+  boolean,
+  defaulted,
+  int,
+  maybe,
+  min,
+  number,
+  object,
+  picklist,
+  SchemaError,
+  string,
+  url,
+} from "./mod.ts";
+
+describe("loadEnv", () => {
+  const schema = object({
+    port: int(min(1)),
+    debug: defaulted(boolean(), false),
+    logLevel: picklist(["debug", "info"]),
+    origins: array(string(url())),
+    db: object({
+      host: string(),
+      port: defaulted(int(), 5432),
+      password: secret(string()),
+    }),
+    cache: maybe(object({ ttl: number() })),
+  });
+
+  const env = {
+    APP_PORT: "8080",
+    APP_DEBUG: "yes",
+    APP_LOG_LEVEL: "info",
+    APP_ORIGINS: "https://a.example, https://b.example",
+    APP_DB__HOST: "localhost",
+    APP_DB__PASSWORD: "hunter2",
+    UNRELATED: "ignored",
+  };
+
+  it("should read and convert variables named after the keys", () => {
+    const config = loadEnv(schema, env, { prefix: "APP_" });
+    expect(config).toEqual({
+      port: 8080,
+      debug: true,
+      logLevel: "info",
+      origins: ["https://a.example", "https://b.example"],
+      db: { host: "localhost", port: 5432, password: "hunter2" },
+      cache: undefined,
+    });
+    const ttl: number | undefined = loadEnv(schema, {
+      ...env,
+      APP_CACHE__TTL: "1.5",
+    }, { prefix: "APP_" }).cache?.ttl;
+    expect(ttl).toBe(1.5);
+  });
+
+  it("should support custom separators", () => {
+    const config = loadEnv(object({ db: object({ host: string() }) }), {
+      DB_HOST: "localhost",
+    }, { separator: "_" });
+    expect(config.db.host).toBe("localhost");
+  });
+
+  it("should report every missing or invalid variable at once", () => {
+    let error: unknown;
+    try {
+      loadEnv(schema, { APP_PORT: "0", APP_ORIGINS: "localhost,https://a" }, {
+        prefix: "APP_",
+      });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(EnvError);
+    expect(error).toBeInstanceOf(SchemaError);
+    const { message, issues, variables } = error as EnvError;
+    expect(message).toBe(
+      [
+        "5 variables are missing or invalid:",
+        "  - APP_PORT: Expected a value greater than or equal to 1",
+        "  - APP_LOG_LEVEL: Missing",
+        "  - APP_ORIGINS: Invalid URL",
+        "  - APP_DB__HOST: Missing",
+        "  - APP_DB__PASSWORD: Missing",
+      ].join("\n"),
+    );
+    expect(variables).toHaveLength(issues.length);
+    expect(issues[2].path).toEqual(["origins", 0]);
+  });
+
+  it("should report set but invalid choices by their issue", () => {
+    expect(() =>
+      loadEnv(schema, { ...env, APP_LOG_LEVEL: "trace" }, {
+        prefix: "APP_",
+      })
+    ).toThrow('APP_LOG_LEVEL: Expected one of "debug", "info"');
+  });
+
+  it("should keep invalid values for the schema to report", () => {
+    expect(() => loadEnv(object({ port: int() }), { PORT: "http" })).toThrow(
+      "PORT: Expected integer",
+    );
+  });
+
+  it("should redact secrets when logged or serialized", () => {
+    const config = loadEnv(schema, env, { prefix: "APP_" });
+    expect(config.db.password).toBe("hunter2");
+    expect(Object.keys(config.db)).toEqual(["host", "port", "password"]);
+    expect(JSON.parse(JSON.stringify(config)).db).toEqual({
+      host: "localhost",
+      port: 5432,
+      password: "[REDACTED]",
+    });
+    const logged = Deno.inspect(config, { depth: 4 });
+    expect(logged).toContain("[REDACTED]");
+    expect(logged).not.toContain("hunter2");
+  });
+});
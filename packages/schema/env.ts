@@ -0,0 +1,325 @@
+import {
+  type ArraySchema,
+  coerce,
+  type InferOutput,
+  type Issue,
+  type LazySchema,
+  type ObjectSchema,
+  type PipeSchema,
+  type Schema,
+  SchemaError,
+  type WrapperSchema,
+} from "./mod.ts";
+
+/**
+ * A map of environment variable names to their values, such as `process.env`, `Deno.env.toObject()` or the bindings
+ * of a Worker.
+ */
+export type EnvSource = { readonly [name: string]: string | undefined };
+
+/**
+ * Options that control how `loadEnv()` maps keys to environment variables.
+ */
+export interface EnvOptions {
+  /**
+   * A prefix prepended to every variable name, e.g. `"APP_"` to read `port` from `APP_PORT`.
+   * @default ""
+   */
+  readonly prefix?: string;
+
+  /**
+   * The separator between the names of nested keys, e.g. `db.host` is read from `DB__HOST`.
+   * @default "__"
+   */
+  readonly separator?: string;
+}
+
+/**
+ * Represents an error thrown by `loadEnv()` when variables are missing or invalid. Its message lists every offending
+ * variable by name, and its issues are those reported by the schema.
+ */
+export class EnvError extends SchemaError {
+  /**
+   * Creates a new EnvError instance.
+   * @param issues - The issues reported by the schema.
+   * @param variables - The name of the variable each issue belongs to, in the order of `issues`.
+   * @param env - The environment variables that were read, to tell unset variables from invalid ones.
+   */
+  constructor(
+    issues: readonly Issue[],
+    readonly variables: readonly string[],
+    env: EnvSource,
+  ) {
+    super(issues);
+    const lines = issues.map((issue, i) => {
+      const missing = !!variables[i] && undefined === env[variables[i]];
+      const message = missing ? "Missing" : issue.message;
+      return variables[i]
+        ? `  - ${variables[i]}: ${message}`
+        : `  - ${message}`;
+    });
+    const count = 1 === issues.length
+      ? "1 variable is"
+      : `${issues.length} variables are`;
+    this.message = [`${count} missing or invalid:`, ...lines].join("\n");
+  }
+}
+
+/**
+ * The schemas marked by `secret()`.
+ */
+const SECRETS = new WeakSet<Schema>();
+
+/**
+ * The value shown in place of secrets when a loaded configuration is logged or serialized.
+ */
+const REDACTED = "[REDACTED]";
+
+/**
+ * Marks a schema as holding a secret, such as a password or an API key. `loadEnv()` redacts secrets when the
+ * configuration is logged with `console.log()` or serialized with `JSON.stringify()`, while reading them returns the
+ * actual value.
+ * @template T - The schema type.
+ * @param schema - The schema of the secret.
+ * @returns A copy of the schema marked as secret.
+ */
+export function secret<T extends Schema>(schema: T): T {
+  const copy = schema.meta({});
+  SECRETS.add(copy);
+  return copy;
+}
+
+/**
+ * Loads a configuration from environment variables.
+ *
+ * Each key of the schema is read from the variable named after it in upper snake case (`dbHost` from `DB_HOST`),
+ * keys of nested objects are joined by the separator (`db.host` from `DB__HOST`), and values are converted to the
+ * type the schema expects: numbers, bigints, booleans, dates, and comma-separated arrays of those. Every missing or
+ * invalid variable is reported at once.
+ *
+ * @template T - The object schema type.
+ * @param schema - The schema of the configuration.
+ * @param env - The environment variables to read.
+ * @param options - Options that control how keys are mapped to variables.
+ * @returns The configuration, with the values marked by `secret()` redacted when it is logged or serialized.
+ * @throws {EnvError} If variables are missing or invalid.
+ */
+export function loadEnv<T extends ObjectSchema<{ [key: string]: unknown }>>(
+  schema: T,
+  env: EnvSource,
+  options: EnvOptions = {},
+): InferOutput<T> {
+  const { prefix = "", separator = "__" } = options;
+  const context: Context = { env, separator, variables: new Map() };
+  const secrets: Secrets = new Map();
+  const input = readObject(schema, prefix, [], context, secrets) ?? {};
+  const result = schema.safeParse(input, { abortEarly: false });
+  if (result.issues) {
+    throw new EnvError(
+      result.issues,
+      result.issues.map(({ path }) => variableOf(path, context)),
+      env,
+    );
+  }
+  redact(result.value, secrets);
+  return result.value;
+}
+
+/**
+ * The state of a `loadEnv()` call.
+ */
+interface Context {
+  /**
+   * The environment variables to read.
+   */
+  readonly env: EnvSource;
+
+  /**
+   * The separator between the names of nested keys.
+   */
+  readonly separator: string;
+
+  /**
+   * The names of the variables read, by the JSON-encoded path of the key they are read for.
+   */
+  readonly variables: Map<string, string>;
+}
+
+/**
+ * The keys holding secrets, mapped to `true` or to the secrets of the nested object they hold.
+ */
+type Secrets = Map<string, Secrets | true>;
+
+/**
+ * Converts a key to the upper snake case name of its variable, e.g. `dbHost` to `DB_HOST`.
+ * @param key - The key.
+ * @returns The name of the variable.
+ */
+function toVariableName(key: string): string {
+  return key.replace(/([a-z\d])([A-Z])/g, "$1_$2").toUpperCase();
+}
+
+/**
+ * Strips the wrappers of a schema, such as `maybe()` and refinements, down to the schema that receives the input.
+ * @param schema - The schema to unwrap.
+ * @returns The innermost schema, and whether any of the schemas was marked by `secret()`.
+ */
+function unwrap(schema: Schema): { base: Schema; secret: boolean } {
+  let secret = SECRETS.has(schema);
+  for (;;) {
+    switch (schema.kind) {
+      case "maybe":
+      case "defaulted":
+      case "required":
+      case "refine":
+      case "transform":
+      case "coerce":
+      case "brand":
+      case "readonly":
+        schema = (schema as WrapperSchema<Schema>).wrapped;
+        break;
+      case "lazy":
+        schema = (schema as LazySchema<Schema>).getter();
+        break;
+      case "pipe":
+        schema = (schema as PipeSchema<Schema, Schema>).first;
+        break;
+      default:
+        return { base: schema, secret };
+    }
+    secret ||= SECRETS.has(schema);
+  }
+}
+
+/**
+ * Builds the input of an object schema from the variables named after its keys.
+ * @param schema - The object schema.
+ * @param prefix - The prefix of the names of the variables.
+ * @param path - The path of the object within the configuration.
+ * @param context - The state of the call.
+ * @param secrets - Receives the keys holding secrets.
+ * @returns The input, or `undefined` if none of the variables is set.
+ */
+function readObject(
+  schema: ObjectSchema<{ [key: string]: unknown }>,
+  prefix: string,
+  path: readonly PropertyKey[],
+  context: Context,
+  secrets: Secrets,
+): { [key: string]: unknown } | undefined {
+  const { shape } = schema;
+  let input: { [key: string]: unknown } | undefined;
+  for (const key in shape) {
+    const name = prefix + toVariableName(key);
+    const { base, secret } = unwrap(shape[key]);
+    let value: unknown;
+    if ("object" === base.kind) {
+      const nested: Secrets = new Map();
+      value = readObject(
+        base as ObjectSchema<{ [key: string]: unknown }>,
+        name + context.separator,
+        [...path, key],
+        context,
+        nested,
+      );
+      // Nested objects that must be present are read as empty, so their keys are reported one by one.
+      if (undefined === value && shape[key].safeParse(undefined).issues) {
+        value = {};
+      }
+      if (nested.size) secrets.set(key, nested);
+    } else {
+      context.variables.set(JSON.stringify([...path, key]), name);
+      const raw = context.env[name];
+      if (undefined !== raw) value = convert(base, raw);
+    }
+    if (secret) secrets.set(key, true);
+    if (undefined !== value) (input ??= {})[key] = value;
+  }
+  return input;
+}
+
+/**
+ * Converts the value of a variable to the type a schema expects.
+ * @param schema - The unwrapped schema of the value.
+ * @param raw - The value of the variable.
+ * @returns The converted value, or the raw value if it cannot be converted.
+ */
+function convert(schema: Schema, raw: string): unknown {
+  switch (schema.kind) {
+    case "number":
+    case "int":
+      return tryParse(coerce.number(), raw);
+    case "bigint":
+      return tryParse(coerce.bigint(), raw);
+    case "boolean":
+      return tryParse(coerce.boolean(), raw);
+    case "date":
+      return tryParse(coerce.date(), raw);
+    case "array": {
+      if ("" === raw.trim()) return [];
+      const { base } = unwrap((schema as ArraySchema<Schema>).item);
+      return raw.split(",").map((item) => convert(base, item.trim()));
+    }
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Converts the value of a variable with a coercing schema, leaving the checks of the configuration schema to it.
+ * @param schema - The coercing schema.
+ * @param raw - The value of the variable.
+ * @returns The parsed value, or the raw value if it is invalid, so that the configuration schema reports it.
+ */
+function tryParse(schema: Schema, raw: string): unknown {
+  const result = schema.safeParse(raw);
+  return result.issues ? raw : result.value;
+}
+
+/**
+ * Finds the variable an issue belongs to.
+ * @param path - The path of the issue.
+ * @param context - The state of the call.
+ * @returns The name of the variable read for the closest key on the path, or an empty string if there is none.
+ */
+function variableOf(path: Issue["path"], context: Context): string {
+  const keys = (path ?? []).map((segment) =>
+    "object" === typeof segment ? segment.key : segment
+  );
+  for (let i = keys.length; i > 0; i--) {
+    const name = context.variables.get(JSON.stringify(keys.slice(0, i)));
+    if (undefined !== name) return name;
+  }
+  return "";
+}
+
+/**
+ * Makes the secrets of a loaded configuration show as `[REDACTED]` when it is logged or serialized.
+ * @param value - The configuration, or an object nested in it.
+ * @param secrets - The keys holding secrets.
+ */
+function redact(value: unknown, secrets: Secrets): void {
+  if (!secrets.size || "object" !== typeof value || null === value) return;
+  const target = value as { [key: string]: unknown };
+  for (const [key, nested] of secrets) {
+    if (true !== nested) redact(target[key], nested);
+  }
+  const copy = () => {
+    const copy = { ...target };
+    for (const [key, nested] of secrets) {
+      if (true === nested && key in copy) copy[key] = REDACTED;
+    }
+    return copy;
+  };
+  type Inspect = (value: unknown, options: unknown) => string;
+  Object.defineProperties(target, {
+    toJSON: { value: copy },
+    [Symbol.for("Deno.customInspect")]: {
+      value: (inspect: Inspect, options: unknown) => inspect(copy(), options),
+    },
+    [Symbol.for("nodejs.util.inspect.custom")]: {
+      value: (_depth: number, options: unknown, inspect: Inspect) =>
+        inspect(copy(), options),
+    },
+  });
+}
@@ -0,0 +1,195 @@
+import { expect } from "jsr:@std/expect";
+import { describe, it } from "jsr:@std/testing/bdd";
+import { fake, FakeError, fakeInvalid } from "./fake.ts";
+import {
+  array,
+  blob,
+  brand,
+  date,
+  defaulted,
+  discriminatedUnion,
+  email,
+  extension,
+  file,
+  gt,
+  instant,
+  int,
+  intersect,
+  isoDate,
+  lazy,
+  length,
+  literal,
+  map,
+  max,
+  maxLength,
+  maxSize,
+  maybe,
+  mimeType,
+  min,
+  minLength,
+  minSize,
+  multipleOf,
+  number,
+  object,
+  picklist,
+  readonly,
+  record,
+  regex,
+  type Schema,
+  set,
+  strict,
+  string,
+  tuple,
+  url,
+  uuid,
+} from "./mod.ts";
+
+const user = strict(object({
+  id: string(uuid(7)),
+  email: string(email()),
+  website: maybe(string(url(["https:"]))),
+  name: string(minLength(2), maxLength(5)),
+  code: string(length(3)),
+  born: string(isoDate()),
+  age: int(min(18), max(30)),
+  score: number(gt(0), multipleOf(0.5)),
+  updatedAt: date(),
+  role: defaulted(picklist(["admin", "user"]), "user"),
+  tags: array(string()),
+  point: tuple([number(), number()], string()),
+  scores: record(string(minLength(1)), int()),
+  lookup: map(int(), literal(true)),
+  ids: set(int()),
+  owner: brand(string(uuid()), "UserId"),
+  audit: intersect(object({ by: string() }), object({ at: date() })),
+  history: readonly(array(int())),
+  payment: discriminatedUnion("type", [
+    object({ type: literal("card"), last4: string(length(4)) }),
+    object({ type: literal("bank"), iban: string() }),
+  ]),
+}));
+
+const seeds = Array.from({ length: 50 }, (_, seed) => seed);
+
+const upload = object({
+  avatar: file(maxSize(32), mimeType(["image/*"]), extension([".png"])),
+  attachment: blob(minSize(1), mimeType(["*/*"])),
+});
+
+describe("fake", () => {
+  it("should generate values the schema accepts", () => {
+    for (const seed of seeds) {
+      const value = fake(user, { seed });
+      expect(user.safeParse(value).issues).toBeUndefined();
+    }
+  });
+
+  it("should be deterministic for a seed", () => {
+    expect(fake(user, { seed: 7 })).toEqual(fake(user, { seed: 7 }));
+    expect(fake(user, { seed: 7 })).not.toEqual(fake(user, { seed: 8 }));
+  });
+
+  it("should respect literals, defaults and collection sizes", () => {
+    const schema = object({
+      kind: literal("post"),
+      status: defaulted(picklist(["draft"]), "draft"),
+      tags: array(string()),
+    });
+    for (const seed of seeds) {
+      const value = fake(schema, { seed, maxItems: 2 });
+      expect(value.kind).toBe("post");
+      expect(value.status).toBe("draft");
+      expect(value.tags.length).toBeLessThanOrEqual(2);
+    }
+  });
+
+  it("should return the output of the schema", () => {
+    const start = new Date("2024-01-01T00:00:00Z");
+    for (const seed of seeds) {
+      const value = fake(instant(min(start)), { seed });
+      expect(value).toBeInstanceOf(Date);
+      expect(value.getTime()).toBeGreaterThanOrEqual(start.getTime());
+    }
+  });
+
+  it("should leave out optional keys", () => {
+    const schema = object({ note: maybe(string()) });
+    const values = seeds.map((seed) => fake(schema, { seed }).note);
+    expect(values).toContain(undefined);
+    expect(values.some((note) => "string" === typeof note)).toBe(true);
+  });
+
+  it("should use examples from metadata", () => {
+    const sku = string(regex(/^[A-Z]{3}-\d{4}$/)).meta({
+      examples: ["ABC-1234", "XYZ-0001"],
+    });
+    expect(["ABC-1234", "XYZ-0001"]).toContain(fake(sku, { seed: 3 }));
+  });
+
+  it("should generate finite values for recursive schemas", () => {
+    type Node = { name: string; children: Node[] };
+    const node: Schema<Node> = object({
+      name: string(),
+      children: array(lazy(() => node)),
+    });
+    for (const seed of seeds) {
+      expect(node.safeParse(fake(node, { seed })).issues).toBeUndefined();
+    }
+  });
+
+  it("should generate blobs and files that satisfy their checks", () => {
+    for (const seed of seeds) {
+      const { avatar, attachment } = fake(upload, { seed });
+      expect(avatar).toBeInstanceOf(File);
+      expect(avatar.type).toMatch(/^image\//);
+      expect(avatar.name).toMatch(/\.png$/);
+      expect(attachment.size).toBeGreaterThan(0);
+    }
+  });
+
+  it("should throw when no value is accepted", () => {
+    const schema = string().refine(() => false);
+    expect(() => fake(schema)).toThrow(FakeError);
+    expect(() => fake(schema)).toThrow(
+      "Could not generate a valid value in 100 attempts",
+    );
+  });
+});
+
+describe("fakeInvalid", () => {
+  it("should generate values the schema rejects", () => {
+    for (const seed of seeds) {
+      const value = fakeInvalid(user, { seed });
+      expect(user.safeParse(value).issues).toBeDefined();
+    }
+  });
+
+  it("should generate blobs and files the schema rejects", () => {
+    for (const seed of seeds) {
+      const result = upload.safeParse(fakeInvalid(upload, { seed }), {
+        abortEarly: false,
+      });
+      expect(result.issues).toHaveLength(1);
+    }
+  });
+
+  it("should generate near misses", () => {
+    const schema = object({
+      name: string(minLength(2)),
+      age: int(min(18)),
+      tags: array(string()),
+    });
+    for (const seed of seeds) {
+      const result = schema.safeParse(fakeInvalid(schema, { seed }), {
+        abortEarly: false,
+      });
+      expect(result.issues).toHaveLength(1);
+    }
+  });
+
+  it("should be deterministic for a seed", () => {
+    expect(fakeInvalid(user, { seed: 3 })).toEqual(
+      fakeInvalid(user, { seed: 3 }),
+    );
+  });
+});
@@ -0,0 +1,916 @@
+import {
+  type ArraySchema,
+  type Check,
+  type CheckedSchema,
+  type DiscriminatedUnionSchema,
+  type InferOutput,
+  type InstantSchema,
+  type IntersectionSchema,
+  isObject,
+  type LazySchema,
+  type Literal,
+  type LiteralSchema,
+  type MapSchema,
+  type ObjectSchema,
+  type PicklistSchema,
+  type PipeSchema,
+  type RecordSchema,
+  type Schema,
+  type SetSchema,
+  type TupleSchema,
+  type UnionSchema,
+  type WrapperSchema,
+} from "./mod.ts";
+
+/**
+ * Options that control how `fake()` and `fakeInvalid()` generate values.
+ */
+export interface FakeOptions {
+  /**
+   * The seed of the random generator. The same schema, seed and options always produce the same value.
+   * @default 0
+   */
+  readonly seed?: number;
+
+  /**
+   * The maximum number of items generated for arrays, sets, maps, records and the rest of tuples.
+   * @default 5
+   */
+  readonly maxItems?: number;
+
+  /**
+   * How many times `lazy()` schemas are entered before optional values are left out and collections are left
+   * empty, so that recursive schemas produce finite values.
+   * @default 3
+   */
+  readonly maxDepth?: number;
+}
+
+/**
+ * Represents an error thrown by `fake()` and `fakeInvalid()` when no value can be generated for a schema.
+ */
+export class FakeError extends Error {
+  /**
+   * Creates a new FakeError instance.
+   * @param path - The path of the offending schema within the value being generated.
+   * @param message - A description of the problem.
+   */
+  constructor(readonly path: readonly PropertyKey[], message: string) {
+    super(
+      path.length ? `${message} at "${path.map(String).join(".")}"` : message,
+    );
+  }
+}
+
+/**
+ * Generates a random value that the schema accepts and returns the schema's output for it.
+ *
+ * Literals, picklists, defaults, optional keys, numeric bounds, string lengths, formats and the size, type and
+ * extension of blobs and files are respected. Schemas with `examples` in their metadata yield one of their examples,
+ * which is the way to feed `regex()` checks and refinements that random values rarely satisfy. Every value is
+ * validated before it is returned, and generation is retried until the schema accepts one. Only synchronous schemas
+ * are supported.
+ *
+ * @template T - The schema type.
+ * @param schema - The schema to generate a value for.
+ * @param options - Options that control the generation.
+ * @returns The output of the schema for the generated value.
+ * @throws {FakeError} If the schema contains a kind that cannot be generated, or no accepted value was found.
+ */
+export function fake<T extends Schema>(
+  schema: T,
+  options: FakeOptions = {},
+): InferOutput<T> {
+  const context = createContext(options);
+  for (let attempt = 0; attempt < ATTEMPTS; attempt++) {
+    const result = schema.safeParse(generate(schema, [], context));
+    if (!result.issues) return result.value as InferOutput<T>;
+  }
+  throw new FakeError(
+    [],
+    `Could not generate a valid value in ${ATTEMPTS} attempts`,
+  );
+}
+
+/**
+ * Generates a random value that the schema rejects, but only barely: a valid value with a single defect, such as a
+ * string one character too short, a number just outside its bounds, a missing required key or a misspelled literal.
+ * Use it to test error paths. Only synchronous schemas are supported.
+ *
+ * @param schema - The schema to generate a value for.
+ * @param options - Options that control the generation.
+ * @returns The generated input.
+ * @throws {FakeError} If the schema contains a kind that cannot be generated, or no rejected value was found.
+ */
+export function fakeInvalid(
+  schema: Schema,
+  options: FakeOptions = {},
+): unknown {
+  const context = createContext(options);
+  for (let attempt = 0; attempt < ATTEMPTS; attempt++) {
+    const input = generateInvalid(schema, [], context);
+    if (schema.safeParse(input).issues) return input;
+  }
+  throw new FakeError(
+    [],
+    `Could not generate an invalid value in ${ATTEMPTS} attempts`,
+  );
+}
+
+/**
+ * How many values are generated before giving up.
+ */
+const ATTEMPTS = 100;
+
+/**
+ * How many times `lazy()` schemas may be entered in total before generation fails.
+ */
+const MAX_RECURSION = 32;
+
+/**
+ * A seeded source of random values.
+ */
+interface Random {
+  /**
+   * Returns a number in `[0, 1)`.
+   */
+  float(): number;
+
+  /**
+   * Returns an integer in `[min, max]`.
+   */
+  int(min: number, max: number): number;
+
+  /**
+   * Returns one of the given items.
+   */
+  pick<T>(items: readonly T[]): T;
+
+  /**
+   * Returns `true` with the given probability.
+   */
+  chance(probability: number): boolean;
+}
+
+/**
+ * Creates a seeded source of random values (mulberry32).
+ * @param seed - The seed.
+ * @returns The source of random values.
+ */
+function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  const float = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number) =>
+    min + Math.floor(float() * (max - min + 1));
+  return {
+    float,
+    int,
+    pick: (items) => items[int(0, items.length - 1)],
+    chance: (probability) => float() < probability,
+  };
+}
+
+/**
+ * The state shared by a single `fake()` or `fakeInvalid()` call.
+ */
+interface Context {
+  /**
+   * The source of random values.
+   */
+  readonly random: Random;
+
+  /**
+   * The maximum number of items generated for collections.
+   */
+  readonly maxItems: number;
+
+  /**
+   * How many `lazy()` schemas are entered before optional values are left out.
+   */
+  readonly maxDepth: number;
+
+  /**
+   * How many `lazy()` schemas are currently entered.
+   */
+  depth: number;
+}
+
+/**
+ * Creates the state of a single `fake()` or `fakeInvalid()` call.
+ * @param options - The generation options.
+ * @returns The generation state.
+ */
+function createContext(options: FakeOptions): Context {
+  const { seed = 0, maxItems = 5, maxDepth = 3 } = options;
+  return { random: createRandom(seed), maxItems, maxDepth, depth: 0 };
+}
+
+/**
+ * Returns the number of items to generate for a collection.
+ * @param context - The generation state.
+ * @returns The number of items.
+ */
+function count(context: Context): number {
+  if (context.depth >= context.maxDepth) return 0;
+  return context.random.int(0, context.maxItems);
+}
+
+/**
+ * Generates a random string of lowercase letters.
+ * @param random - The source of random values.
+ * @param length - The length of the string.
+ * @returns The string.
+ */
+function word(random: Random, length: number): string {
+  let value = "";
+  for (let i = 0; i < length; i++) {
+    value += String.fromCharCode(random.int(97, 122));
+  }
+  return value;
+}
+
+/**
+ * Generates a random date between 2000 and 2030.
+ * @param random - The source of random values.
+ * @returns The date.
+ */
+function randomDate(random: Random): Date {
+  return new Date(random.int(DATE_RANGE[0], DATE_RANGE[1]));
+}
+
+/**
+ * The default range of generated dates, in milliseconds since the epoch.
+ */
+const DATE_RANGE: [number, number] = [
+  Date.UTC(2000, 0, 1),
+  Date.UTC(2030, 0, 1),
+];
+
+/**
+ * The default range of generated numbers.
+ */
+const NUMBER_RANGE: [number, number] = [-1000, 1000];
+
+/**
+ * The string formats `fake()` generates, by check code.
+ */
+const FORMATS: {
+  [code: string]: (
+    random: Random,
+    params: { [key: string]: unknown },
+  ) => string;
+} = {
+  email: (random) =>
+    `${word(random, random.int(3, 8))}@${word(random, random.int(3, 8))}.com`,
+  url: (random, { protocols }) =>
+    `${(protocols as string[] | undefined)?.[0] ?? "https:"}//${
+      word(random, random.int(3, 8))
+    }.com/${word(random, random.int(0, 8))}`,
+  uuid: (random, { version = 4 }) => {
+    let hex = "";
+    for (let i = 0; i < 32; i++) hex += random.int(0, 15).toString(16);
+    hex = `${hex.slice(0, 12)}${version}${hex.slice(13, 16)}${
+      random.pick(["8", "9", "a", "b"])
+    }${hex.slice(17)}`;
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${
+      hex.slice(16, 20)
+    }-${hex.slice(20)}`;
+  },
+  iso_date: (random) => randomDate(random).toISOString().slice(0, 10),
+  iso_time: (random) => randomDate(random).toISOString().slice(11, 19),
+  iso_datetime: (random) => randomDate(random).toISOString(),
+};
+
+/**
+ * Breaks a string generated for a format so that it no longer matches, by check code.
+ */
+const CORRUPTIONS: { [code: string]: (value: string) => string } = {
+  email: (value) => value.replace("@", "."),
+  url: (value) => value.replace(":", ""),
+  uuid: (value) => value.slice(1),
+  iso_date: (value) => `${value.slice(0, 8)}32`,
+  iso_time: (value) => `24${value.slice(2)}`,
+  iso_datetime: (value) => value.slice(0, -1),
+};
+
+/**
+ * The length bounds of a string schema.
+ * @param checks - The checks of the schema.
+ * @returns The minimum and maximum length.
+ */
+function lengthBounds(checks: readonly Check<string>[]): [number, number] {
+  let min = 0;
+  let max = Infinity;
+  for (const { code, params } of checks) {
+    if ("min_length" === code) min = Math.max(min, params.min as number);
+    if ("max_length" === code) max = Math.min(max, params.max as number);
+    if ("length" === code) {
+      min = Math.max(min, params.length as number);
+      max = Math.min(max, params.length as number);
+    }
+  }
+  return [min, max];
+}
+
+/**
+ * Generates a string that satisfies the length and format checks of a string schema.
+ * @param checks - The checks of the schema.
+ * @param random - The source of random values.
+ * @returns The string.
+ */
+function fakeString(checks: readonly Check<string>[], random: Random): string {
+  const format = checks.find(({ code }) => code in FORMATS);
+  if (format) return FORMATS[format.code](random, format.params);
+  const [min, max] = lengthBounds(checks);
+  return word(random, random.int(min, Math.min(max, min + 10)));
+}
+
+/**
+ * The default range of generated blob sizes, in bytes.
+ */
+const SIZE_RANGE: [number, number] = [0, 64];
+
+/**
+ * Generates a blob or file that satisfies the size, type and name checks of a blob or file schema.
+ * @param kind - The kind of the schema, `"blob"` or `"file"`.
+ * @param checks - The checks of the schema.
+ * @param random - The source of random values.
+ * @param overrides - Replaces the generated size, type or name, e.g. to break a check.
+ * @returns The blob or file.
+ */
+function fakeBlob(
+  kind: string,
+  checks: readonly Check<Blob>[],
+  random: Random,
+  overrides: { size?: number; type?: string; name?: string } = {},
+): Blob {
+  let type = "";
+  let name = word(random, random.int(3, 8));
+  for (const { code, params } of checks) {
+    if ("mime_type" === code) {
+      const pattern = random.pick(params.types as string[]);
+      type = "*/*" === pattern
+        ? "application/octet-stream"
+        : pattern.replace(/\*$/, word(random, random.int(3, 8)));
+    }
+    if ("extension" === code) {
+      const extension = random.pick(params.extensions as string[]);
+      name += `.${extension.replace(/^\./, "")}`;
+    }
+  }
+  const size = overrides.size ??
+    fakeNumber({ min: 0, ...numericBounds(checks) }, true, SIZE_RANGE, random);
+  const content = word(random, size);
+  type = overrides.type ?? type;
+  return "file" === kind
+    ? new File([content], overrides.name ?? name, {
+      type,
+      lastModified: randomDate(random).getTime(),
+    })
+    : new Blob([content], { type });
+}
+
+/**
+ * The numeric bounds of a number, bigint or date schema.
+ */
+interface Bounds {
+  /**
+   * The lower bound, if any.
+   */
+  min?: number;
+
+  /**
+   * Whether the lower bound is exclusive.
+   */
+  minExclusive?: boolean;
+
+  /**
+   * The upper bound, if any.
+   */
+  max?: number;
+
+  /**
+   * Whether the upper bound is exclusive.
+   */
+  maxExclusive?: boolean;
+
+  /**
+   * The value must be a multiple of this step, if any.
+   */
+  step?: number;
+}
+
+/**
+ * Collects the bounds of a number, bigint or date schema from the params of its checks.
+ * @param checks - The checks of the schema.
+ * @returns The tightest bounds.
+ */
+function numericBounds(checks: readonly Check<unknown>[]): Bounds {
+  const bounds: Bounds = {};
+  for (const { params } of checks) {
+    if ("min" in params) {
+      const min = Number(params.min);
+      if (undefined === bounds.min || min >= bounds.min) {
+        bounds.minExclusive = !!params.exclusive ||
+          (min === bounds.min && bounds.minExclusive);
+        bounds.min = min;
+      }
+    }
+    if ("max" in params) {
+      const max = Number(params.max);
+      if (undefined === bounds.max || max <= bounds.max) {
+        bounds.maxExclusive = !!params.exclusive ||
+          (max === bounds.max && bounds.maxExclusive);
+        bounds.max = max;
+      }
+    }
+    if ("step" in params) bounds.step = Number(params.step);
+  }
+  return bounds;
+}
+
+/**
+ * Generates a number within the given bounds.
+ * @param bounds - The bounds.
+ * @param integer - Whether to generate an integer.
+ * @param range - The range used for missing bounds.
+ * @param random - The source of random values.
+ * @returns The number.
+ */
+function fakeNumber(
+  bounds: Bounds,
+  integer: boolean,
+  range: [number, number],
+  random: Random,
+): number {
+  const spread = range[1] - range[0];
+  let min = bounds.min ?? (undefined === bounds.max ? range[0] : -Infinity);
+  let max = bounds.max ?? (Number.isFinite(min) ? min + spread : range[1]);
+  if (!Number.isFinite(min)) min = max - spread;
+  if (integer || bounds.step) {
+    min = bounds.minExclusive ? Math.floor(min) + 1 : Math.ceil(min);
+    max = bounds.maxExclusive ? Math.ceil(max) - 1 : Math.floor(max);
+  }
+  if (bounds.step) {
+    const { step } = bounds;
+    return random.int(Math.ceil(min / step), Math.floor(max / step)) * step;
+  }
+  if (integer) return random.int(min, max);
+  return min + random.float() * (max - min);
+}
+
+/**
+ * Returns numbers that just miss the given bounds.
+ * @param bounds - The bounds.
+ * @param valid - A value within the bounds.
+ * @param integer - Whether only integers are valid.
+ * @returns The near misses.
+ */
+function numericMisses(
+  bounds: Bounds,
+  valid: number,
+  integer: boolean,
+): number[] {
+  const misses: number[] = [];
+  if (undefined !== bounds.min) {
+    misses.push(bounds.minExclusive ? bounds.min : bounds.min - 1);
+  }
+  if (undefined !== bounds.max) {
+    misses.push(bounds.maxExclusive ? bounds.max : bounds.max + 1);
+  }
+  if (bounds.step) misses.push(valid + bounds.step / 2);
+  if (integer) misses.push(valid + 0.5);
+  return misses;
+}
+
+/**
+ * Generates a value the schema accepts, before it is validated.
+ * @param schema - The schema to generate a value for.
+ * @param path - The path of the schema within the generated value.
+ * @param context - The generation state.
+ * @returns The generated input.
+ * @throws {FakeError} If the schema contains a kind that cannot be generated.
+ */
+function generate(
+  schema: Schema,
+  path: readonly PropertyKey[],
+  context: Context,
+): unknown {
+  const { random } = context;
+  const { examples } = schema.metadata;
+  if (examples?.length) return random.pick(examples);
+
+  switch (schema.kind) {
+    case "string":
+      return fakeString((schema as CheckedSchema<string>).checks, random);
+    case "number":
+    case "int": {
+      const { checks } = schema as CheckedSchema<number>;
+      const integer = "int" === schema.kind ||
+        checks.some(({ code }) => "safe_integer" === code);
+      return fakeNumber(numericBounds(checks), integer, NUMBER_RANGE, random);
+    }
+    case "bigint": {
+      const { checks } = schema as CheckedSchema<bigint>;
+      return BigInt(
+        fakeNumber(numericBounds(checks), true, NUMBER_RANGE, random),
+      );
+    }
+    case "boolean":
+      return random.chance(0.5);
+    case "unknown":
+      return random.pick([
+        null,
+        random.chance(0.5),
+        random.int(0, 100),
+        word(random, 5),
+      ]);
+    case "date":
+    case "instant": {
+      const { checks } = schema as CheckedSchema<Date> | InstantSchema;
+      const date = new Date(
+        fakeNumber(numericBounds(checks), true, DATE_RANGE, random),
+      );
+      return "date" === schema.kind ? date : date.toISOString();
+    }
+    case "blob":
+    case "file":
+      return fakeBlob(
+        schema.kind,
+        (schema as CheckedSchema<Blob>).checks,
+        random,
+      );
+    case "duration":
+      return `P${random.int(0, 30)}DT${random.int(0, 23)}H${
+        random.int(0, 59)
+      }M`;
+    case "literal":
+      return (schema as LiteralSchema<Literal>).value;
+    case "picklist":
+    case "native_enum":
+      return random.pick((schema as PicklistSchema<string>).options);
+    case "array":
+    case "set": {
+      const { item } = schema as ArraySchema<Schema> | SetSchema<Schema>;
+      const items = Array.from(
+        { length: count(context) },
+        (_, i) => generate(item, [...path, i], context),
+      );
+      return "set" === schema.kind ? new Set(items) : items;
+    }
+    case "tuple": {
+      const { items, rest } = schema as TupleSchema<Schema[], Schema>;
+      const values = items.map((item, i) =>
+        generate(item, [...path, i], context)
+      );
+      if (rest) {
+        for (let i = count(context); i > 0; i--) {
+          values.push(generate(rest, [...path, values.length], context));
+        }
+      }
+      return values;
+    }
+    case "object": {
+      const { shape, catchall } = schema as ObjectSchema<
+        { [key: string]: unknown },
+        unknown,
+        unknown
+      >;
+      const value: { [key: string]: unknown } = {};
+      for (const key in shape) {
+        const item = generate(shape[key], [...path, key], context);
+        if (undefined !== item) value[key] = item;
+      }
+      if (catchall) {
+        for (let i = count(context); i > 0; i--) {
+          const key = word(random, random.int(3, 8));
+          if (key in shape) continue;
+          value[key] = generate(catchall, [...path, key], context);
+        }
+      }
+      return value;
+    }
+    case "record":
+    case "map": {
+      const { key, value } = schema as
+        | RecordSchema<Schema<string>, Schema>
+        | MapSchema<Schema, Schema>;
+      const entries: [unknown, unknown][] = [];
+      for (let i = count(context); i > 0; i--) {
+        const name = generate(key, [...path, i], context);
+        const keyPath = "string" === typeof name ? name : i;
+        entries.push([name, generate(value, [...path, keyPath], context)]);
+      }
+      return "map" === schema.kind
+        ? new Map(entries)
+        : Object.fromEntries(entries);
+    }
+    case "maybe":
+    case "defaulted": {
+      const { wrapped } = schema as WrapperSchema<Schema>;
+      if (context.depth >= context.maxDepth || random.chance(0.25)) {
+        return undefined;
+      }
+      return generate(wrapped, path, context);
+    }
+    case "union":
+    case "discriminated_union": {
+      const { options } = schema as
+        | UnionSchema<Schema[]>
+        | DiscriminatedUnionSchema<string, []>;
+      return generate(random.pick<Schema>(options), path, context);
+    }
+    case "required":
+    case "refine":
+    case "transform":
+    case "coerce":
+    case "brand":
+    case "readonly":
+      return generate((schema as WrapperSchema<Schema>).wrapped, path, context);
+    case "intersection": {
+      const { first, second } = schema as IntersectionSchema<Schema, Schema>;
+      const a = generate(first, path, context);
+      const b = generate(second, path, context);
+      return isObject(a) && isObject(b) ? { ...a, ...b } : a;
+    }
+    case "pipe":
+      return generate(
+        (schema as PipeSchema<Schema, Schema>).first,
+        path,
+        context,
+      );
+    case "lazy":
+      return enter(schema as LazySchema<Schema>, path, context, generate);
+    default:
+      throw new FakeError(path, `Cannot generate ${schema.kind} schema`);
+  }
+}
+
+/**
+ * Generates a value for the schema resolved by a `lazy()` schema, one level deeper.
+ * @param schema - The lazy schema.
+ * @param path - The path of the schema within the generated value.
+ * @param context - The generation state.
+ * @param next - Generates the value of the resolved schema.
+ * @returns The generated input.
+ * @throws {FakeError} If the schema recurses too deeply.
+ */
+function enter(
+  schema: LazySchema<Schema>,
+  path: readonly PropertyKey[],
+  context: Context,
+  next: typeof generate,
+): unknown {
+  if (context.depth >= MAX_RECURSION) {
+    throw new FakeError(path, "Cannot generate a finite value");
+  }
+  context.depth++;
+  try {
+    return next(schema.getter(), path, context);
+  } finally {
+    context.depth--;
+  }
+}
+
+/**
+ * Generates a value the schema rejects with a single defect, before it is validated.
+ * @param schema - The schema to generate a value for.
+ * @param path - The path of the schema within the generated value.
+ * @param context - The generation state.
+ * @returns The generated input.
+ * @throws {FakeError} If the schema contains a kind that cannot be generated.
+ */
+function generateInvalid(
+  schema: Schema,
+  path: readonly PropertyKey[],
+  context: Context,
+): unknown {
+  const { random } = context;
+  switch (schema.kind) {
+    case "string": {
+      const { checks } = schema as CheckedSchema<string>;
+      const valid = fakeString(checks, random);
+      const misses: unknown[] = [valid.length];
+      const [min, max] = lengthBounds(checks);
+      if (min > 0) misses.push(valid.slice(0, min - 1));
+      if (Number.isFinite(max)) misses.push(word(random, max + 1));
+      for (const { code } of checks) {
+        if (code in CORRUPTIONS) misses.push(CORRUPTIONS[code](valid));
+      }
+      return random.pick(misses);
+    }
+    case "number":
+    case "int":
+    case "bigint": {
+      const { checks } = schema as CheckedSchema<number>;
+      const integer = "number" !== schema.kind ||
+        checks.some(({ code }) => "safe_integer" === code);
+      const bounds = numericBounds(checks);
+      const valid = fakeNumber(bounds, integer, NUMBER_RANGE, random);
+      const misses: unknown[] = numericMisses(bounds, valid, integer);
+      if ("bigint" === schema.kind) {
+        return random.pick([
+          ...misses.map((miss) => BigInt(Math.floor(miss as number))),
+          valid,
+        ]);
+      }
+      return random.pick([...misses, String(valid), NaN]);
+    }
+    case "date":
+    case "instant": {
+      const { checks } = schema as CheckedSchema<Date> | InstantSchema;
+      const bounds = numericBounds(checks);
+      const valid = fakeNumber(bounds, true, DATE_RANGE, random);
+      const misses: unknown[] = numericMisses(bounds, valid, false)
+        .map((miss) => new Date(miss));
+      if ("date" === schema.kind) {
+        return random.pick([...misses, new Date(NaN), valid]);
+      }
+      return random.pick([
+        ...misses.map((miss) => (miss as Date).toISOString()),
+        new Date(valid).toISOString().slice(0, -1),
+        new Date(valid),
+      ]);
+    }
+    case "boolean":
+      return random.pick(["true", "false", 0, 1]);
+    case "blob":
+    case "file": {
+      const { checks } = schema as CheckedSchema<Blob>;
+      const { kind } = schema;
+      // A blob that is not a file, or a string instead of a blob.
+      const misses: unknown[] = [
+        "file" === kind ? fakeBlob("blob", checks, random) : word(random, 8),
+      ];
+      const { min, max } = numericBounds(checks);
+      if (min) misses.push(fakeBlob(kind, checks, random, { size: min - 1 }));
+      if (undefined !== max) {
+        misses.push(fakeBlob(kind, checks, random, { size: max + 1 }));
+      }
+      for (const { code } of checks) {
+        // Blobs without a declared type fail `mimeType()`, and names without a dot fail `extension()`.
+        if ("mime_type" === code) {
+          misses.push(fakeBlob(kind, checks, random, { type: "" }));
+        }
+        if ("extension" === code) {
+          misses.push(
+            fakeBlob(kind, checks, random, { name: word(random, 8) }),
+          );
+        }
+      }
+      return random.pick(misses);
+    }
+    case "never":
+      return null;
+    case "duration":
+      return random.pick(["P", "1 day", `PT${random.int(1, 59)}`]);
+    case "literal": {
+      const { value } = schema as LiteralSchema<Literal>;
+      return nearMiss(value, random);
+    }
+    case "picklist":
+    case "native_enum": {
+      const { options } = schema as PicklistSchema<string | number>;
+      return nearMiss(random.pick(options), random);
+    }
+    case "array":
+    case "set": {
+      const { item } = schema as ArraySchema<Schema> | SetSchema<Schema>;
+      const items = [...generate(schema, path, context) as Iterable<unknown>];
+      const index = random.int(0, items.length);
+      items[index] = generateInvalid(item, [...path, index], context);
+      return "set" === schema.kind ? new Set(items) : items;
+    }
+    case "tuple": {
+      const { items, rest } = schema as TupleSchema<Schema[], Schema>;
+      const values = generate(schema, path, context) as unknown[];
+      if (!rest && (!items.length || random.chance(0.25))) {
+        return [...values, values[0] ?? null];
+      }
+      const index = random.int(0, rest ? values.length : items.length - 1);
+      values[index] = generateInvalid(
+        items[index] ?? rest,
+        [...path, index],
+        context,
+      );
+      return values;
+    }
+    case "object": {
+      const { shape, unknownKeys } = schema as ObjectSchema<
+        { [key: string]: unknown },
+        unknown,
+        unknown
+      >;
+      const value = generate(schema, path, context) as {
+        [key: string]: unknown;
+      };
+      const keys = Object.keys(shape);
+      if (!keys.length || ("strict" === unknownKeys && random.chance(0.25))) {
+        return { ...value, [`${word(random, 3)}_`]: true };
+      }
+      const key = random.pick(keys);
+      if (random.chance(0.25)) {
+        delete value[key];
+      } else {
+        value[key] = generateInvalid(shape[key], [...path, key], context);
+      }
+      return value;
+    }
+    case "record":
+    case "map": {
+      const { key, value } = schema as
+        | RecordSchema<Schema<string>, Schema>
+        | MapSchema<Schema, Schema>;
+      const invalidKey = random.chance(0.5);
+      const entry = [
+        invalidKey
+          ? generateInvalid(key, path, context)
+          : generate(key, path, context),
+        invalidKey
+          ? generate(value, path, context)
+          : generateInvalid(value, path, context),
+      ] as const;
+      return "map" === schema.kind
+        ? new Map([entry])
+        : { [String(entry[0])]: entry[1] };
+    }
+    case "discriminated_union": {
+      const { key, options } = schema as DiscriminatedUnionSchema<string, []>;
+      const option = random.pick<ObjectSchema<{ [key: string]: Literal }>>(
+        options,
+      );
+      if (random.chance(0.5)) return generateInvalid(option, path, context);
+      return {
+        ...generate(option, path, context) as object,
+        [key]: nearMiss(
+          (option.shape[key] as LiteralSchema<Literal>).value,
+          random,
+        ),
+      };
+    }
+    case "union":
+      return generateInvalid(
+        random.pick<Schema>((schema as UnionSchema<Schema[]>).options),
+        path,
+        context,
+      );
+    case "required":
+      return random.pick([null, undefined]);
+    case "maybe":
+    case "defaulted":
+    case "refine":
+    case "transform":
+    case "coerce":
+    case "brand":
+    case "readonly":
+      return generateInvalid(
+        (schema as WrapperSchema<Schema>).wrapped,
+        path,
+        context,
+      );
+    case "intersection": {
+      const { first, second } = schema as IntersectionSchema<Schema, Schema>;
+      return generateInvalid(random.pick([first, second]), path, context);
+    }
+    case "pipe":
+      return generateInvalid(
+        (schema as PipeSchema<Schema, Schema>).first,
+        path,
+        context,
+      );
+    case "lazy":
+      return enter(
+        schema as LazySchema<Schema>,
+        path,
+        context,
+        generateInvalid,
+      );
+    default:
+      throw new FakeError(path, `Cannot generate ${schema.kind} schema`);
+  }
+}
+
+/**
+ * Returns a value close to, but different from, the given literal.
+ * @param value - The literal.
+ * @param random - The source of random values.
+ * @returns The near miss.
+ */
+function nearMiss(value: Literal, random: Random): unknown {
+  switch (typeof value) {
+    case "string":
+      return random.pick([`${value}_`, value.toUpperCase(), value.slice(1)]);
+    case "number":
+      return random.pick([value + 1, String(value)]);
+    case "boolean":
+      return random.pick([!value, String(value)]);
+    default:
+      return random.pick([undefined, "null"]);
+  }
+}
@@ -0,0 +1,283 @@
+import { expect } from "jsr:@std/expect";
+import { describe, it } from "jsr:@std/testing/bdd";
+import { fromJsonSchema, jsonSchemaToSource } from "./from_json_schema.ts";
+import { JsonSchemaError, toJsonSchema } from "./json_schema.ts";
+import { int, maybe, object, string, uuid } from "./mod.ts";
+
+const user = {
+  $defs: {
+    Address: {
+      type: "object",
+      properties: {
+        street: { type: "string", minLength: 1 },
+        zip: { type: ["string", "null"], pattern: "^\\d{5}$" },
+      },
+      required: ["street", "zip"],
+    },
+  },
+  type: "object",
+  description: "A user",
+  properties: {
+    id: { type: "string", format: "uuid" },
+    role: { enum: ["admin", "user"], default: "user" },
+    age: { type: "integer", minimum: 0, exclusiveMaximum: 150 },
+    address: { $ref: "#/$defs/Address" },
+    contact: {
+      oneOf: [
+        { type: "string", format: "email" },
+        { properties: { phone: { type: "string" } }, required: ["phone"] },
+      ],
+    },
+    flags: { type: "object", additionalProperties: { type: "boolean" } },
+  },
+  required: ["id", "address"],
+  additionalProperties: false,
+};
+
+const id = "0190d8a4-1d6e-7cc0-9b3c-2f5a1a1a1a1a";
+
+/**
+ * Runs a function with the `__proto__` accessor of Node, Bun and browsers installed on `Object.prototype`, which Deno
+ * disables by default.
+ */
+function withProtoAccessor(fn: () => void): void {
+  const original = Object.getOwnPropertyDescriptor(
+    Object.prototype,
+    "__proto__",
+  );
+  Object.defineProperty(Object.prototype, "__proto__", {
+    configurable: true,
+    get(this: object) {
+      return Object.getPrototypeOf(this);
+    },
+    set(this: object, proto: object | null) {
+      Object.setPrototypeOf(this, proto);
+    },
+  });
+  try {
+    fn();
+  } finally {
+    if (original) {
+      Object.defineProperty(Object.prototype, "__proto__", original);
+    } else Reflect.deleteProperty(Object.prototype, "__proto__");
+  }
+}
+
+describe("fromJsonSchema", () => {
+  it("should validate what the document describes", () => {
+    const schema = fromJsonSchema(user);
+    expect(schema.parse({
+      id,
+      address: { street: "Main St", zip: null },
+      contact: { phone: "555" },
+      flags: { beta: true },
+    })).toEqual({
+      id,
+      role: "user",
+      age: undefined,
+      address: { street: "Main St", zip: null },
+      contact: { phone: "555" },
+      flags: { beta: true },
+    });
+    expect(schema.metadata).toEqual({ description: "A user" });
+  });
+
+  it("should report the issues of every keyword", () => {
+    const schema = fromJsonSchema(user);
+    const result = schema.safeParse({
+      id: "x",
+      role: "root",
+      age: 150,
+      address: { street: "", zip: "123" },
+      contact: 1,
+      flags: { beta: "yes" },
+      extra: true,
+    }, { abortEarly: false });
+    expect(result.issues?.map(({ code, path }) => [code, path])).toEqual([
+      ["uuid", ["id"]],
+      ["invalid_option", ["role"]],
+      ["max", ["age"]],
+      ["min_length", ["address", "street"]],
+      ["regex", ["address", "zip"]],
+      ["invalid_literal", ["address", "zip"]],
+      ["invalid_type", ["contact"]],
+      ["invalid_type", ["contact"]],
+      ["invalid_type", ["flags", "beta"]],
+      ["unrecognized_key", ["extra"]],
+    ]);
+  });
+
+  it("should resolve recursive references", () => {
+    const schema = fromJsonSchema({
+      definitions: {
+        Node: {
+          type: "object",
+          properties: {
+            value: { type: "number" },
+            next: { $ref: "#/definitions/Node" },
+          },
+          required: ["value"],
+        },
+      },
+      $ref: "#/definitions/Node",
+    });
+    expect(schema.parse({ value: 1, next: { value: 2 } })).toEqual({
+      value: 1,
+      next: { value: 2, next: undefined },
+    });
+    expect(schema.safeParse({ value: 1, next: { value: "2" } }).issues)
+      .toMatchObject([{ path: ["next", "value"] }]);
+  });
+
+  it("should convert tuples, constants, intersections and booleans", () => {
+    const schema = fromJsonSchema({
+      type: "array",
+      prefixItems: [{ const: "point" }, { type: "number" }, true],
+      items: false,
+    });
+    expect(schema.parse(["point", 1, { any: 1 }])).toEqual(["point", 1, {
+      any: 1,
+    }]);
+    expect(schema.safeParse(["point", 1, 2, 3]).issues).toBeDefined();
+    const both = fromJsonSchema({
+      allOf: [
+        { properties: { a: { type: "string" } } },
+        { properties: { b: { type: "string" } } },
+      ],
+    });
+    expect(both.parse({ a: "a", b: "b", c: "c" })).toEqual({ a: "a", b: "b" });
+    expect(fromJsonSchema(false).safeParse(1).issues).toBeDefined();
+  });
+
+  it("should round-trip the output of toJsonSchema()", () => {
+    const schema = object({ id: string(uuid()), age: maybe(int()) });
+    const converted = fromJsonSchema(toJsonSchema(schema));
+    const value = { id, age: 3 };
+    expect(converted.parse(value)).toEqual(schema.parse(value));
+    expect(converted.safeParse({ id: "x" }).issues).toEqual(
+      schema.safeParse({ id: "x" }).issues,
+    );
+  });
+
+  it("should convert the boolean exclusive bounds of draft 4", () => {
+    const schema = fromJsonSchema({
+      type: "number",
+      minimum: 1,
+      exclusiveMinimum: true,
+      maximum: 5,
+      exclusiveMaximum: false,
+    });
+    expect(schema.safeParse(1).issues?.[0].code).toBe("min");
+    expect(schema.safeParse(1.5).issues).toBeUndefined();
+    expect(schema.safeParse(5).issues).toBeUndefined();
+  });
+
+  it("should throw for unsupported documents", () => {
+    expect(() => fromJsonSchema({ $ref: "https://example.com/user.json" }))
+      .toThrow(JsonSchemaError);
+    expect(() => fromJsonSchema({ $ref: "#/$defs/Missing" })).toThrow(
+      'Cannot resolve reference #/$defs/Missing at "$ref"',
+    );
+    expect(() => fromJsonSchema({ properties: { a: { type: "file" } } }))
+      .toThrow('Unsupported type file at "properties.a.type"');
+    expect(() => fromJsonSchema({ type: "string", pattern: "[" })).toThrow(
+      JsonSchemaError,
+    );
+    expect(() => fromJsonSchema({ type: "string", pattern: "(" })).toThrow(
+      'at "pattern"',
+    );
+    expect(() => fromJsonSchema({ type: "number", multipleOf: 0 })).toThrow(
+      'Expected multipleOf to be greater than 0, got 0 at "multipleOf"',
+    );
+  });
+});
+
+describe("jsonSchemaToSource", () => {
+  it("should emit definitions before the schemas that use them", () => {
+    expect(jsonSchemaToSource(user, { name: "User" })).toBe(
+      `import {
+  boolean,
+  defaulted,
+  email,
+  type InferOutput,
+  int,
+  literal,
+  lt,
+  maybe,
+  min,
+  minLength,
+  object,
+  picklist,
+  record,
+  regex,
+  strict,
+  string,
+  union,
+  uuid,
+} from "@razr/schema";
+
+export const Address = object({
+  street: string(minLength(1)),
+  zip: union([string(regex(/^\\d{5}$/)), literal(null)]),
+});
+export type Address = InferOutput<typeof Address>;
+
+export const User = strict(object({
+  id: string(uuid()),
+  role: defaulted(picklist(["admin", "user"]), "user"),
+  age: maybe(int(min(0), lt(150))),
+  address: Address,
+  contact: maybe(union([
+    string(email()),
+    object({
+      phone: string(),
+    }),
+  ])),
+  flags: maybe(record(string(), boolean())),
+})).meta({
+  description: "A user",
+});
+export type User = InferOutput<typeof User>;
+`,
+    );
+  });
+
+  it("should declare __proto__ keys as properties", () => {
+    withProtoAccessor(() => {
+      const document = JSON.parse(
+        '{"properties":{"__proto__":{"type":"string"}},"required":["__proto__"]}',
+      );
+      expect(jsonSchemaToSource(document)).toContain(
+        '  ["__proto__"]: string(),\n',
+      );
+      expect(Object.keys(
+        fromJsonSchema(document).parse(
+          JSON.parse('{"__proto__":"a"}'),
+        ) as object,
+      )).toEqual(["__proto__"]);
+    });
+  });
+
+  it("should wrap recursive references in lazy()", () => {
+    const source = jsonSchemaToSource({
+      type: "object",
+      properties: { children: { type: "array", items: { $ref: "#" } } },
+    }, { importFrom: "./mod.ts" });
+    expect(source).toBe(
+      `import {
+  array,
+  type InferOutput,
+  lazy,
+  maybe,
+  object,
+  type Schema,
+} from "./mod.ts";
+
+export const Root = object({
+  children: maybe(array(lazy((): Schema => Root))),
+});
+export type Root = InferOutput<typeof Root>;
+`,
+    );
+  });
+});
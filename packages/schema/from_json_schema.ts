@@ -0,0 +1,696 @@
+import { type JsonSchema, JsonSchemaError } from "./json_schema.ts";
+import {
+  array,
+  boolean,
+  catchall,
+  defaulted,
+  email,
+  gt,
+  int,
+  intersect,
+  isObject,
+  isoDate,
+  isoDateTime,
+  isoTime,
+  lazy,
+  literal,
+  lt,
+  max,
+  maxLength,
+  maybe,
+  min,
+  minLength,
+  multipleOf,
+  never,
+  number,
+  object,
+  passthrough,
+  picklist,
+  record,
+  regex,
+  type Schema,
+  strict,
+  string,
+  tuple,
+  union,
+  unknown,
+  url,
+  uuid,
+} from "./mod.ts";
+
+/**
+ * Options that control how `jsonSchemaToSource()` emits TypeScript.
+ */
+export interface JsonSchemaSourceOptions {
+  /**
+   * The name of the exported schema and type of the root of the document.
+   * @default "Root"
+   */
+  readonly name?: string;
+
+  /**
+   * The module the schema functions are imported from.
+   * @default "@razr/schema"
+   */
+  readonly importFrom?: string;
+}
+
+/**
+ * The functions of `@razr/schema` a JSON Schema document is converted to.
+ */
+const FUNCTIONS = {
+  array,
+  boolean,
+  catchall,
+  defaulted,
+  email,
+  gt,
+  int,
+  intersect,
+  isoDate,
+  isoDateTime,
+  isoTime,
+  literal,
+  lt,
+  max,
+  maxLength,
+  maybe,
+  min,
+  minLength,
+  multipleOf,
+  never,
+  number,
+  object,
+  passthrough,
+  picklist,
+  record,
+  regex,
+  strict,
+  string,
+  tuple,
+  union,
+  unknown,
+  url,
+  uuid,
+};
+
+/**
+ * The name of a function of `@razr/schema`.
+ */
+type FunctionName = keyof typeof FUNCTIONS;
+
+/**
+ * A call to a function of `@razr/schema`, or to a method of the schema built by `target`.
+ */
+class Call {
+  /**
+   * Creates a new Call instance.
+   * @param name - The name of the function or method.
+   * @param args - The arguments.
+   * @param target - The schema the method is called on, if this is a method call.
+   */
+  constructor(
+    readonly name: string,
+    readonly args: readonly Value[],
+    readonly target?: Call | Ref,
+  ) {}
+}
+
+/**
+ * A reference to a definition of the document, by its JSON pointer.
+ */
+class Ref {
+  /**
+   * Creates a new Ref instance.
+   * @param pointer - The JSON pointer of the definition, `""` for the root.
+   */
+  constructor(readonly pointer: string) {}
+}
+
+/**
+ * A value in the description of a converted schema: a call, a reference, or the JSON, regular expression, array
+ * and object arguments of calls.
+ */
+type Value =
+  | Call
+  | Ref
+  | RegExp
+  | string
+  | number
+  | boolean
+  | null
+  | readonly Value[]
+  | { readonly [key: string]: Value };
+
+/**
+ * The state of a single conversion.
+ */
+interface Context {
+  /**
+   * The document being converted.
+   */
+  readonly document: JsonSchema | boolean;
+
+  /**
+   * The converted definitions, by JSON pointer, in the order they were first referenced.
+   */
+  readonly defs: Map<string, Call | Ref | undefined>;
+}
+
+/**
+ * The string formats converted to checks.
+ */
+const FORMATS: { readonly [format: string]: FunctionName } = {
+  email: "email",
+  uri: "url",
+  uuid: "uuid",
+  date: "isoDate",
+  time: "isoTime",
+  "date-time": "isoDateTime",
+};
+
+/**
+ * The numeric keywords converted to checks.
+ */
+const NUMBER_CHECKS: { readonly [keyword: string]: FunctionName } = {
+  minimum: "min",
+  maximum: "max",
+  exclusiveMinimum: "gt",
+  exclusiveMaximum: "lt",
+  multipleOf: "multipleOf",
+};
+
+/**
+ * The draft 4 keywords that make a bound exclusive when set to `true`, by the keyword of the bound.
+ */
+const EXCLUSIVE_KEYWORDS: { readonly [keyword: string]: string } = {
+  minimum: "exclusiveMinimum",
+  maximum: "exclusiveMaximum",
+};
+
+/**
+ * The annotations converted to schema metadata.
+ */
+const ANNOTATIONS = ["title", "description", "examples", "deprecated"];
+
+/**
+ * Builds a schema from a JSON Schema document, e.g. one received from a partner.
+ *
+ * The supported keywords are `type` (including lists of types), `enum`, `const`, `properties`, `required`,
+ * `additionalProperties`, `items`, `prefixItems`, `$ref` to `$defs` or `definitions` of the document, `anyOf`,
+ * `oneOf` (which, like `anyOf`, accepts values matching several options), `allOf`, `default`, the string keywords
+ * `minLength`, `maxLength`, `pattern` and the formats of `toJsonSchema()`, the numeric keywords `minimum`, `maximum`,
+ * `exclusiveMinimum`, `exclusiveMaximum` (including the boolean form of draft 4) and `multipleOf`, and the
+ * annotations `title`, `description`, `examples` and `deprecated`. Other keywords are ignored. Properties that are not
+ * required accept `null` and `undefined`, and objects strip unknown keys unless `additionalProperties` is given.
+ *
+ * @param document - The JSON Schema document.
+ * @returns A schema validating what the document describes.
+ * @throws {JsonSchemaError} If the document contains an unsupported type, enum value or reference.
+ */
+export function fromJsonSchema(document: JsonSchema | boolean): Schema {
+  const context: Context = { document, defs: new Map() };
+  const root = convert(document, [], context);
+  const schemas = new Map<string, Schema>();
+  const evaluate = (value: Value): unknown => {
+    if (value instanceof Ref) {
+      let schema = schemas.get(value.pointer);
+      if (!schema) {
+        let resolved: Schema | undefined;
+        const def = "" === value.pointer
+          ? root
+          : context.defs.get(value.pointer) as Call | Ref;
+        schema = lazy(() => resolved ??= evaluate(def) as Schema);
+        schemas.set(value.pointer, schema);
+      }
+      return schema;
+    }
+    if (value instanceof Call) {
+      const args = value.args.map(evaluate);
+      const target = value.target && evaluate(value.target) as {
+        [name: string]: (...args: unknown[]) => unknown;
+      };
+      if (target) return target[value.name](...args);
+      const fn = FUNCTIONS[value.name as FunctionName];
+      return (fn as (...args: unknown[]) => unknown)(...args);
+    }
+    if (value instanceof RegExp || null === value) return value;
+    if (Array.isArray(value)) return value.map(evaluate);
+    if ("object" === typeof value) {
+      const output: { [key: string]: unknown } = {};
+      const entries = value as { readonly [key: string]: Value };
+      for (const key in entries) setOwn(output, key, evaluate(entries[key]));
+      return output;
+    }
+    return value;
+  };
+  return evaluate(root) as Schema;
+}
+
+/**
+ * Emits the TypeScript source of the schemas `fromJsonSchema()` builds, so that the types of the document are known
+ * statically. Each definition referenced by the document is exported as a schema and a type of the same name,
+ * followed by the root of the document. Definitions that reference themselves, directly or not, are wrapped in
+ * `lazy()` and typed as `unknown` where they recur, since TypeScript cannot infer self-referencing types.
+ *
+ * @param document - The JSON Schema document.
+ * @param options - Options that control the names of the emitted declarations.
+ * @returns The TypeScript source of a module.
+ * @throws {JsonSchemaError} If the document contains an unsupported type, enum value or reference.
+ */
+export function jsonSchemaToSource(
+  document: JsonSchema | boolean,
+  options: JsonSchemaSourceOptions = {},
+): string {
+  const { name = "Root", importFrom = "@razr/schema" } = options;
+  const context: Context = { document, defs: new Map() };
+  const root = convert(document, [], context);
+
+  const names = new Map<string, string>([["", toIdentifier(name)]]);
+  const used = new Set(names.values());
+  for (const pointer of context.defs.keys()) {
+    let identifier = toIdentifier(pointer.slice(pointer.lastIndexOf("/") + 1));
+    while (used.has(identifier)) identifier += "_";
+    names.set(pointer, identifier);
+    used.add(identifier);
+  }
+
+  // Emit definitions after the definitions they reference, so that only cycles need lazy().
+  const order: string[] = [];
+  const visited = new Set<string>();
+  const visit = (pointer: string) => {
+    if (visited.has(pointer)) return;
+    visited.add(pointer);
+    const def = "" === pointer ? root : context.defs.get(pointer) as Value;
+    for (const ref of collectRefs(def)) visit(ref);
+    order.push(pointer);
+  };
+  visit("");
+
+  const imports = new Set<string>(["type InferOutput"]);
+  const declarations = order.map((pointer, index) => {
+    const refer = (ref: Ref) => {
+      const target = names.get(ref.pointer) as string;
+      if (order.indexOf(ref.pointer) < index) return target;
+      imports.add("lazy");
+      imports.add("type Schema");
+      return `lazy((): Schema => ${target})`;
+    };
+    const def = "" === pointer ? root : context.defs.get(pointer) as Value;
+    const source = print(def, "", refer, imports);
+    const identifier = names.get(pointer) as string;
+    return [
+      `export const ${identifier} = ${source};`,
+      `export type ${identifier} = InferOutput<typeof ${identifier}>;`,
+    ].join("\n");
+  });
+
+  const specifiers = [...imports].sort((a, b) =>
+    a.replace("type ", "").localeCompare(b.replace("type ", ""))
+  );
+  const from = JSON.stringify(importFrom);
+  const line = `import { ${specifiers.join(", ")} } from ${from};`;
+  const header = line.length <= 80 ? line : [
+    "import {",
+    ...specifiers.map((specifier) => `  ${specifier},`),
+    `} from ${from};`,
+  ].join("\n");
+  return [header, ...declarations].join("\n\n") + "\n";
+}
+
+/**
+ * Converts a JSON Schema to the description of a schema.
+ * @param node - The JSON Schema to convert.
+ * @param path - The path of the JSON Schema within the document.
+ * @param context - The conversion state.
+ * @returns The description of the schema.
+ * @throws {JsonSchemaError} If the JSON Schema is not supported.
+ */
+function convert(
+  node: unknown,
+  path: readonly PropertyKey[],
+  context: Context,
+): Call | Ref {
+  if (true === node) return call("unknown");
+  if (false === node) return call("never");
+  if (!isObject(node)) {
+    throw new JsonSchemaError(path, "Expected a schema object or boolean");
+  }
+
+  const parts: (Call | Ref)[] = [];
+  if ("string" === typeof node.$ref) {
+    parts.push(resolve(node.$ref, [...path, "$ref"], context));
+  }
+  if ("const" in node) {
+    parts.push(call("literal", toLiteral(node.const, [...path, "const"])));
+  } else if (Array.isArray(node.enum)) {
+    parts.push(convertEnum(node.enum, [...path, "enum"]));
+  } else if (undefined !== node.type) {
+    const types = Array.isArray(node.type) ? node.type : [node.type];
+    const options = types.map((type) => convertType(node, type, path, context));
+    parts.push(1 === options.length ? options[0] : call("union", options));
+  } else if (
+    "properties" in node || "additionalProperties" in node ||
+    "required" in node
+  ) {
+    parts.push(convertType(node, "object", path, context));
+  } else if ("items" in node || "prefixItems" in node) {
+    parts.push(convertType(node, "array", path, context));
+  }
+  for (const keyword of ["anyOf", "oneOf"]) {
+    const options = node[keyword];
+    if (!Array.isArray(options)) continue;
+    parts.push(call(
+      "union",
+      options.map((option, i) =>
+        convert(option, [...path, keyword, i], context)
+      ),
+    ));
+  }
+  if (Array.isArray(node.allOf)) {
+    node.allOf.forEach((member, i) =>
+      parts.push(convert(member, [...path, "allOf", i], context))
+    );
+  }
+
+  let schema = parts.length
+    ? parts.reduce((a, b) => call("intersect", a, b))
+    : call("unknown");
+  if ("default" in node) {
+    schema = call("defaulted", schema, toJson(node.default));
+  }
+  const metadata: { [key: string]: Value } = {};
+  for (const keyword of ANNOTATIONS) {
+    if (undefined !== node[keyword]) metadata[keyword] = toJson(node[keyword]);
+  }
+  if (Object.keys(metadata).length) {
+    schema = new Call("meta", [metadata], schema);
+  }
+  return schema;
+}
+
+/**
+ * Converts a JSON Schema with a single type.
+ * @param node - The JSON Schema.
+ * @param type - The type.
+ * @param path - The path of the JSON Schema within the document.
+ * @param context - The conversion state.
+ * @returns The description of the schema.
+ * @throws {JsonSchemaError} If the type is not supported.
+ */
+function convertType(
+  node: { [keyword: string]: unknown },
+  type: unknown,
+  path: readonly PropertyKey[],
+  context: Context,
+): Call {
+  switch (type) {
+    case "string": {
+      const checks: Call[] = [];
+      if ("number" === typeof node.minLength) {
+        checks.push(call("minLength", node.minLength));
+      }
+      if ("number" === typeof node.maxLength) {
+        checks.push(call("maxLength", node.maxLength));
+      }
+      if ("string" === typeof node.pattern) {
+        let pattern: RegExp;
+        try {
+          pattern = new RegExp(node.pattern);
+        } catch (error) {
+          throw new JsonSchemaError(
+            [...path, "pattern"],
+            `Invalid pattern: ${(error as Error).message}`,
+          );
+        }
+        checks.push(call("regex", pattern));
+      }
+      const { format } = node;
+      if ("string" === typeof format && Object.hasOwn(FORMATS, format)) {
+        checks.push(call(FORMATS[format]));
+      }
+      return call("string", ...checks);
+    }
+    case "number":
+    case "integer": {
+      const checks: Call[] = [];
+      for (const keyword in NUMBER_CHECKS) {
+        const bound = node[keyword];
+        if ("number" !== typeof bound) continue;
+        if ("multipleOf" === keyword && !(bound > 0)) {
+          throw new JsonSchemaError(
+            [...path, keyword],
+            `Expected multipleOf to be greater than 0, got ${bound}`,
+          );
+        }
+        // Draft 4 marks `minimum` and `maximum` as exclusive with a boolean `exclusiveMinimum` or `exclusiveMaximum`.
+        const exclusive = EXCLUSIVE_KEYWORDS[keyword];
+        checks.push(
+          exclusive && true === node[exclusive]
+            ? call(NUMBER_CHECKS[exclusive], bound)
+            : call(NUMBER_CHECKS[keyword], bound),
+        );
+      }
+      return call("integer" === type ? "int" : "number", ...checks);
+    }
+    case "boolean":
+      return call("boolean");
+    case "null":
+      return call("literal", null);
+    case "array": {
+      const items = undefined === node.items
+        ? undefined
+        : convert(node.items, [...path, "items"], context);
+      if (!Array.isArray(node.prefixItems)) {
+        return call("array", items ?? call("unknown"));
+      }
+      const prefix = node.prefixItems.map((item, i) =>
+        convert(item, [...path, "prefixItems", i], context)
+      );
+      if (false === node.items) return call("tuple", prefix);
+      return call("tuple", prefix, items ?? call("unknown"));
+    }
+    case "object": {
+      const properties = isObject(node.properties) ? node.properties : {};
+      const required = Array.isArray(node.required) ? node.required : [];
+      const additional = node.additionalProperties;
+      if (!Object.keys(properties).length && isObject(additional)) {
+        return call(
+          "record",
+          call("string"),
+          convert(additional, [...path, "additionalProperties"], context),
+        );
+      }
+      const shape: { [key: string]: Value } = {};
+      for (const key in properties) {
+        const property = properties[key];
+        const schema = convert(property, [...path, "properties", key], context);
+        const optional = !required.includes(key) &&
+          !(isObject(property) && "default" in property);
+        setOwn(shape, key, optional ? call("maybe", schema) : schema);
+      }
+      const schema = call("object", shape);
+      if (false === additional) return call("strict", schema);
+      if (true === additional) return call("passthrough", schema);
+      if (undefined === additional) return schema;
+      return call(
+        "catchall",
+        schema,
+        convert(additional, [...path, "additionalProperties"], context),
+      );
+    }
+    default:
+      throw new JsonSchemaError([...path, "type"], `Unsupported type ${type}`);
+  }
+}
+
+/**
+ * Converts the values of an `enum` keyword.
+ * @param values - The allowed values.
+ * @param path - The path of the keyword within the document.
+ * @returns A `picklist()` of strings and numbers, or a `union()` of literals.
+ * @throws {JsonSchemaError} If a value is not a string, number, boolean or `null`.
+ */
+function convertEnum(values: unknown[], path: readonly PropertyKey[]): Call {
+  const literals = values.map((value, i) => toLiteral(value, [...path, i]));
+  if (1 === literals.length) return call("literal", literals[0]);
+  if (literals.every((value) => "string" === typeof value)) {
+    return call("picklist", literals);
+  }
+  return call("union", literals.map((value) => call("literal", value)));
+}
+
+/**
+ * Resolves a `$ref` to a definition of the document, converting the definition on first use.
+ * @param ref - The reference, e.g. `#/$defs/User`.
+ * @param path - The path of the reference within the document.
+ * @param context - The conversion state.
+ * @returns A reference to the converted definition.
+ * @throws {JsonSchemaError} If the reference does not point within the document.
+ */
+function resolve(
+  ref: string,
+  path: readonly PropertyKey[],
+  context: Context,
+): Ref {
+  if (!ref.startsWith("#")) {
+    throw new JsonSchemaError(path, `Unsupported external reference ${ref}`);
+  }
+  const pointer = decodeURIComponent(ref.slice(1));
+  if ("" === pointer) return new Ref("");
+  if (context.defs.has(pointer)) return new Ref(pointer);
+
+  let target: unknown = context.document;
+  for (const segment of pointer.slice(1).split("/")) {
+    const key = segment.replaceAll("~1", "/").replaceAll("~0", "~");
+    if (!isObject(target) || !Object.hasOwn(target, key)) {
+      throw new JsonSchemaError(path, `Cannot resolve reference ${ref}`);
+    }
+    target = target[key];
+  }
+  context.defs.set(pointer, undefined);
+  const def = convert(target, pointer.slice(1).split("/"), context);
+  context.defs.set(pointer, def);
+  return new Ref(pointer);
+}
+
+/**
+ * Describes a call to a function of `@razr/schema`.
+ * @param name - The name of the function.
+ * @param args - The arguments.
+ * @returns The call.
+ */
+function call(name: FunctionName, ...args: Value[]): Call {
+  return new Call(name, args);
+}
+
+/**
+ * Checks that a value of an `enum` or `const` keyword can be a literal.
+ * @param value - The value.
+ * @param path - The path of the value within the document.
+ * @returns The value.
+ * @throws {JsonSchemaError} If the value is an array or object.
+ */
+function toLiteral(
+  value: unknown,
+  path: readonly PropertyKey[],
+): string | number | boolean | null {
+  if (null === value || "object" !== typeof value) {
+    return value as string | number | boolean;
+  }
+  throw new JsonSchemaError(path, "Unsupported non-primitive literal");
+}
+
+/**
+ * Sets an own property of an object, so that keys such as `__proto__` do not set its prototype.
+ * @param target - The object.
+ * @param key - The key.
+ * @param value - The value.
+ */
+function setOwn<T>(target: { [key: string]: T }, key: string, value: T): void {
+  Object.defineProperty(target, key, {
+    value,
+    writable: true,
+    enumerable: true,
+    configurable: true,
+  });
+}
+
+/**
+ * Copies a JSON value of the document, such as a default, as a value of a description.
+ * @param value - The JSON value.
+ * @returns The value.
+ */
+function toJson(value: unknown): Value {
+  if (Array.isArray(value)) return value.map(toJson);
+  if (isObject(value)) {
+    const copy: { [key: string]: Value } = {};
+    for (const key in value) setOwn(copy, key, toJson(value[key]));
+    return copy;
+  }
+  return value as Value;
+}
+
+/**
+ * Lists the definitions a description references.
+ * @param value - The description.
+ * @returns The JSON pointers of the referenced definitions.
+ */
+function collectRefs(value: Value): string[] {
+  if (value instanceof Ref) return [value.pointer];
+  if (value instanceof Call) {
+    return [
+      ...value.target ? collectRefs(value.target) : [],
+      ...value.args.flatMap(collectRefs),
+    ];
+  }
+  if (value instanceof RegExp || null === value) return [];
+  if (Array.isArray(value)) return value.flatMap(collectRefs);
+  if ("object" === typeof value) {
+    return Object.values(value).flatMap(collectRefs);
+  }
+  return [];
+}
+
+/**
+ * Matches the names that can be used as identifiers and unquoted property keys.
+ */
+const IDENTIFIER_REGEX = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Converts the name of a definition to an identifier.
+ * @param name - The name.
+ * @returns The name, with invalid characters replaced by `_`.
+ */
+function toIdentifier(name: string): string {
+  const identifier = name.replace(/[^\w$]/g, "_");
+  return IDENTIFIER_REGEX.test(identifier) ? identifier : `_${identifier}`;
+}
+
+/**
+ * Prints a description as TypeScript source.
+ * @param value - The description.
+ * @param indent - The indentation of the line the value starts on.
+ * @param refer - Prints a reference to a definition.
+ * @param imports - Receives the names of the functions called.
+ * @returns The source.
+ */
+function print(
+  value: Value,
+  indent: string,
+  refer: (ref: Ref) => string,
+  imports: Set<string>,
+): string {
+  if (value instanceof Ref) return refer(value);
+  if (value instanceof Call) {
+    const args = value.args.map((arg) => print(arg, indent, refer, imports));
+    if (!value.target) imports.add(value.name);
+    const source = `${value.name}(${args.join(", ")})`;
+    return value.target
+      ? `${print(value.target, indent, refer, imports)}.${source}`
+      : source;
+  }
+  if (value instanceof RegExp) return String(value);
+  const inner = `${indent}  `;
+  if (Array.isArray(value)) {
+    const items = value.map((item) => print(item, inner, refer, imports));
+    const line = items.join(", ");
+    if (!line.includes("\n") && line.length <= 60) return `[${line}]`;
+    return `[\n${items.map((item) => `${inner}${item},\n`).join("")}${indent}]`;
+  }
+  if (null !== value && "object" === typeof value) {
+    const entries = Object.entries(value as { [key: string]: Value });
+    if (!entries.length) return "{}";
+    const lines = entries.map(([key, item]) => {
+      // A literal `__proto__` key sets the prototype, a computed one declares a property.
+      const name = "__proto__" === key
+        ? '["__proto__"]'
+        : IDENTIFIER_REGEX.test(key)
+        ? key
+        : JSON.stringify(key);
+      return `${inner}${name}: ${print(item, inner, refer, imports)},\n`;
+    });
+    return `{\n${lines.join("")}${indent}}`;
+  }
+  return JSON.stringify(value);
+}
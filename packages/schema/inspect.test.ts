@@ -0,0 +1,122 @@
+import { expect } from "jsr:@std/expect";
+import { describe, it } from "jsr:@std/testing/bdd";
+import { inspect, type SchemaNode } from "./inspect.ts";
+import {
+  array,
+  defaulted,
+  file,
+  lazy,
+  literal,
+  map,
+  maxSize,
+  maybe,
+  mimeType,
+  minLength,
+  number,
+  object,
+  picklist,
+  pipe,
+  type Schema,
+  string,
+  tuple,
+  union,
+} from "./mod.ts";
+
+describe("inspect", () => {
+  it("should describe constraints and metadata", () => {
+    const schema = string(minLength(2, "Too short")).describe("A name");
+    expect(inspect(schema)).toEqual({
+      kind: "string",
+      schema,
+      metadata: { description: "A name" },
+      constraints: [{ code: "min_length", params: { min: 2 } }],
+      children: [],
+    });
+  });
+
+  it("should describe the constraints of files", () => {
+    const node = inspect(file(maxSize(1024), mimeType(["image/*"])));
+    expect(node.kind).toBe("file");
+    expect(node.constraints).toEqual([
+      { code: "max_size", params: { max: 1024 } },
+      { code: "mime_type", params: { types: ["image/*"] } },
+    ]);
+  });
+
+  it("should list allowed values and defaults", () => {
+    expect(inspect(literal("a")).values).toEqual(["a"]);
+    expect(inspect(picklist(["a", "b"])).values).toEqual(["a", "b"]);
+    const node = inspect(defaulted(number(), 1));
+    expect(node.default).toBe(1);
+    expect(node.children[0].node.kind).toBe("number");
+  });
+
+  it("should describe children by role and key", () => {
+    const schema = object({
+      tags: array(string()),
+      point: tuple([number()], string()),
+      lookup: maybe(map(string(), number())),
+      id: union([string(), pipe(string(), number())]),
+    });
+    const summarize = (node: SchemaNode): unknown => ({
+      kind: node.kind,
+      children: node.children.map(({ role, key, node }) => [
+        role,
+        key,
+        summarize(node),
+      ]),
+    });
+    const leaf = (kind: string) => ({ kind, children: [] });
+    expect(summarize(inspect(schema))).toEqual({
+      kind: "object",
+      children: [
+        ["property", "tags", {
+          kind: "array",
+          children: [["item", undefined, leaf("string")]],
+        }],
+        ["property", "point", {
+          kind: "tuple",
+          children: [
+            ["element", 0, leaf("number")],
+            ["rest", undefined, leaf("string")],
+          ],
+        }],
+        ["property", "lookup", {
+          kind: "maybe",
+          children: [["wrapped", undefined, {
+            kind: "map",
+            children: [
+              ["key", undefined, leaf("string")],
+              ["value", undefined, leaf("number")],
+            ],
+          }]],
+        }],
+        ["property", "id", {
+          kind: "union",
+          children: [
+            ["option", 0, leaf("string")],
+            ["option", 1, {
+              kind: "pipe",
+              children: [
+                ["first", undefined, leaf("string")],
+                ["second", undefined, leaf("number")],
+              ],
+            }],
+          ],
+        }],
+      ],
+    });
+  });
+
+  it("should reuse nodes for recursive schemas", () => {
+    type Category = { name: string; children: Category[] };
+    const category: Schema<Category> = object({
+      name: string(),
+      children: array(lazy(() => category)),
+    });
+    const root = inspect(category);
+    const children = root.children[1].node.children[0].node;
+    expect(children.kind).toBe("lazy");
+    expect(children.children[0].node).toBe(root);
+  });
+});
@@ -0,0 +1,237 @@
+import type {
+  ArraySchema,
+  Check,
+  DefaultedSchema,
+  DiscriminatedUnionSchema,
+  IntersectionSchema,
+  LazySchema,
+  LiteralSchema,
+  MapSchema,
+  ObjectSchema,
+  PicklistSchema,
+  PipeSchema,
+  RecordSchema,
+  Schema,
+  SchemaKind,
+  SchemaMetadata,
+  SetSchema,
+  TupleSchema,
+  UnionSchema,
+  WrapperSchema,
+} from "./mod.ts";
+
+/**
+ * The role a child schema plays in its parent:
+ *
+ * - `"property"`: A key of an object shape, named by `key`.
+ * - `"catchall"`: The schema of the unknown keys of an object.
+ * - `"item"`: The schema of the items of an array or set.
+ * - `"element"`: A positional item of a tuple, at index `key`.
+ * - `"rest"`: The schema of the items after the positional items of a tuple.
+ * - `"key"` and `"value"`: The schemas of the keys and values of a record or map.
+ * - `"option"`: A member of a union, at index `key`.
+ * - `"wrapped"`: The schema wrapped by `maybe()`, `defaulted()`, `brand()`, `readonly()`, a refinement, a transform,
+ *   a coercion or `lazy()`.
+ * - `"first"` and `"second"`: The schemas composed by `pipe()` or `intersect()`, in the order they run.
+ */
+export type ChildRole =
+  | "property"
+  | "catchall"
+  | "item"
+  | "element"
+  | "rest"
+  | "key"
+  | "value"
+  | "option"
+  | "wrapped"
+  | "first"
+  | "second";
+
+/**
+ * Represents a child of a schema node.
+ */
+export interface SchemaChild {
+  /**
+   * The role the child plays in its parent.
+   */
+  readonly role: ChildRole;
+
+  /**
+   * The key of `"property"` children and the index of `"element"` and `"option"` children.
+   */
+  readonly key?: string | number;
+
+  /**
+   * The node of the child schema.
+   */
+  readonly node: SchemaNode;
+}
+
+/**
+ * Represents a constraint a schema checks, with the same code and params as the issue it reports on failure.
+ */
+export interface Constraint {
+  /**
+   * The machine-readable code of the constraint (e.g. `"min_length"`).
+   */
+  readonly code: string;
+
+  /**
+   * The parameters of the constraint (e.g. `{ min: 3 }`).
+   */
+  readonly params: { readonly [key: string]: unknown };
+}
+
+/**
+ * Represents a schema in the tree built by `inspect()`.
+ */
+export interface SchemaNode {
+  /**
+   * The kind of the schema.
+   */
+  readonly kind: SchemaKind;
+
+  /**
+   * The schema itself, which may be narrowed by `kind` to read kind-specific properties such as `unknownKeys`.
+   */
+  readonly schema: Schema;
+
+  /**
+   * The metadata attached to the schema.
+   */
+  readonly metadata: SchemaMetadata;
+
+  /**
+   * The constraints checked by `string()`, `number()`, `date()` and the other schemas that accept checks.
+   */
+  readonly constraints: readonly Constraint[];
+
+  /**
+   * The allowed values of `literal()`, `picklist()` and `nativeEnum()` schemas.
+   */
+  readonly values?: readonly unknown[];
+
+  /**
+   * The default value of `defaulted()` schemas.
+   */
+  readonly default?: unknown;
+
+  /**
+   * The child schemas, in the order they are validated.
+   */
+  readonly children: readonly SchemaChild[];
+}
+
+/**
+ * Builds a walkable tree describing a schema, e.g. to generate documentation or forms.
+ *
+ * Every schema is described once: a schema used in several places yields the same node, and a recursive `lazy()`
+ * schema yields the node already being built for it, so walkers of recursive schemas must track visited nodes.
+ *
+ * @param schema - The schema to inspect.
+ * @returns The root node.
+ */
+export function inspect(schema: Schema): SchemaNode {
+  return build(schema, new Map());
+}
+
+/**
+ * Builds the node of a schema and its descendants.
+ * @param schema - The schema to describe.
+ * @param nodes - The nodes already built, by schema.
+ * @returns The node.
+ */
+function build(schema: Schema, nodes: Map<Schema, SchemaNode>): SchemaNode {
+  const existing = nodes.get(schema);
+  if (existing) return existing;
+
+  const children: SchemaChild[] = [];
+  const node: { -readonly [K in keyof SchemaNode]: SchemaNode[K] } = {
+    kind: schema.kind,
+    schema,
+    metadata: schema.metadata,
+    constraints: [],
+    children,
+  };
+  nodes.set(schema, node);
+
+  const add = (role: ChildRole, child: Schema, key?: string | number) => {
+    const childNode = build(child, nodes);
+    children.push({ role, ...(undefined !== key && { key }), node: childNode });
+  };
+
+  if ("checks" in schema) {
+    const checks = schema.checks as readonly Check<unknown>[];
+    node.constraints = checks.map(({ code, params }) => ({ code, params }));
+  }
+
+  switch (schema.kind) {
+    case "literal":
+      node.values = [(schema as LiteralSchema<null>).value];
+      break;
+    case "picklist":
+    case "native_enum":
+      node.values = (schema as PicklistSchema<string>).options;
+      break;
+    case "array":
+    case "set":
+      add("item", (schema as ArraySchema<Schema> | SetSchema<Schema>).item);
+      break;
+    case "tuple": {
+      const { items, rest } = schema as TupleSchema<Schema[], Schema>;
+      items.forEach((item, i) => add("element", item, i));
+      if (rest) add("rest", rest);
+      break;
+    }
+    case "object": {
+      const { shape, catchall } = schema as ObjectSchema<
+        { [key: string]: unknown },
+        unknown,
+        unknown
+      >;
+      for (const key in shape) add("property", shape[key], key);
+      if (catchall) add("catchall", catchall);
+      break;
+    }
+    case "record":
+    case "map": {
+      const { key, value } = schema as
+        | RecordSchema<Schema<string>, Schema>
+        | MapSchema<Schema, Schema>;
+      add("key", key);
+      add("value", value);
+      break;
+    }
+    case "union":
+    case "discriminated_union":
+      (schema as UnionSchema<Schema[]> | DiscriminatedUnionSchema<string, []>)
+        .options.forEach((option: Schema, i) => add("option", option, i));
+      break;
+    case "defaulted":
+      node.default = (schema as DefaultedSchema<Schema>).default;
+      add("wrapped", (schema as WrapperSchema<Schema>).wrapped);
+      break;
+    case "maybe":
+    case "required":
+    case "refine":
+    case "transform":
+    case "coerce":
+    case "brand":
+    case "readonly":
+      add("wrapped", (schema as WrapperSchema<Schema>).wrapped);
+      break;
+    case "lazy":
+      add("wrapped", (schema as LazySchema<Schema>).getter());
+      break;
+    case "pipe":
+    case "intersection": {
+      const { first, second } = schema as
+        | PipeSchema<Schema, Schema>
+        | IntersectionSchema<Schema, Schema>;
+      add("first", first);
+      add("second", second);
+      break;
+    }
+  }
+  return node;
+}
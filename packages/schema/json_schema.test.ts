@@ -0,0 +1,316 @@
+import { expect } from "jsr:@std/expect";
+import { describe, it } from "jsr:@std/testing/bdd";
+import {
+  array,
+  bigint,
+  boolean,
+  brand,
+  catchall,
+  coerce,
+  date,
+  defaulted,
+  discriminatedUnion,
+  duration,
+  email,
+  gt,
+  instant,
+  int,
+  intersect,
+  lazy,
+  literal,
+  maxLength,
+  maybe,
+  min,
+  minLength,
+  multipleOf,
+  number,
+  object,
+  picklist,
+  pipe,
+  readonly,
+  record,
+  regex,
+  type Schema,
+  strict,
+  string,
+  tuple,
+  union,
+  url,
+  uuid,
+} from "./mod.ts";
+import {
+  JSON_SCHEMA_DIALECT,
+  JsonSchemaError,
+  toJsonSchema,
+} from "./json_schema.ts";
+
+/**
+ * Runs a function with the `__proto__` accessor of Node, Bun and browsers installed on `Object.prototype`, which Deno
+ * disables by default.
+ */
+function withProtoAccessor(fn: () => void): void {
+  const original = Object.getOwnPropertyDescriptor(
+    Object.prototype,
+    "__proto__",
+  );
+  Object.defineProperty(Object.prototype, "__proto__", {
+    configurable: true,
+    get(this: object) {
+      return Object.getPrototypeOf(this);
+    },
+    set(this: object, proto: object | null) {
+      Object.setPrototypeOf(this, proto);
+    },
+  });
+  try {
+    fn();
+  } finally {
+    if (original) {
+      Object.defineProperty(Object.prototype, "__proto__", original);
+    } else Reflect.deleteProperty(Object.prototype, "__proto__");
+  }
+}
+
+describe("toJsonSchema", () => {
+  it("should declare __proto__ keys as properties", () => {
+    withProtoAccessor(() => {
+      const { properties } = toJsonSchema(
+        object({ ["__proto__"]: string(), name: string() }),
+      );
+      expect(Object.keys(properties as object)).toEqual(["__proto__", "name"]);
+      expect(Object.getPrototypeOf(properties)).toBe(Object.prototype);
+    });
+  });
+
+  it("should declare the draft 2020-12 dialect", () => {
+    expect(toJsonSchema(boolean())).toEqual({
+      $schema: JSON_SCHEMA_DIALECT,
+      type: "boolean",
+    });
+  });
+
+  it("should map string checks to keywords and formats", () => {
+    const { $schema: _, ...schema } = toJsonSchema(
+      string(minLength(2), maxLength(10), regex(/^[a-z]+$/)),
+    );
+    expect(schema).toEqual({
+      type: "string",
+      minLength: 2,
+      maxLength: 10,
+      pattern: "^[a-z]+$",
+    });
+    expect(toJsonSchema(string(email())).format).toBe("email");
+    expect(toJsonSchema(string(uuid())).format).toBe("uuid");
+  });
+
+  it("should keep uuid versions and url protocols as patterns", () => {
+    const { $schema: _, ...v4 } = toJsonSchema(string(uuid(4)));
+    expect(v4).toEqual({
+      type: "string",
+      format: "uuid",
+      pattern:
+        "^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-4[0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}$",
+    });
+    const { $schema: __, ...https } = toJsonSchema(
+      string(regex(/^h/), url(["https:", "git+ssh:"])),
+    );
+    expect(https).toEqual({
+      type: "string",
+      format: "uri",
+      pattern: "^h",
+      allOf: [{
+        pattern: "^(?:[hH][tT][tT][pP][sS]:|[gG][iI][tT]\\+[sS][sS][hH]:)",
+      }],
+    });
+    const pattern = new RegExp(
+      (https.allOf as { pattern: string }[])[0].pattern,
+    );
+    expect(pattern.test("HTTPS://example.com")).toBe(true);
+    expect(pattern.test("http://example.com")).toBe(false);
+    // Validators such as Ajv compile patterns in unicode mode, which rejects needless escapes.
+    const { pattern: custom } = toJsonSchema(string(url(["x-app:"])));
+    expect(new RegExp(custom as string, "u").test("x-app://open")).toBe(true);
+  });
+
+  it("should map numeric checks to keywords", () => {
+    const { $schema: _, ...schema } = toJsonSchema(
+      number(gt(0), multipleOf(0.5)),
+    );
+    expect(schema).toEqual({
+      type: "number",
+      exclusiveMinimum: 0,
+      multipleOf: 0.5,
+    });
+    expect(toJsonSchema(int(min(1)))).toMatchObject({
+      type: "integer",
+      minimum: 1,
+    });
+  });
+
+  it("should list only required keys and honor the unknown-key policy", () => {
+    const user = object({
+      name: string(),
+      age: maybe(int()),
+      role: defaulted(union([literal("admin"), literal("user")]), "user"),
+    });
+    const { $schema: _, ...schema } = toJsonSchema(strict(user));
+    expect(schema).toEqual({
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        age: { anyOf: [{ type: "integer" }, { type: "null" }] },
+        role: {
+          anyOf: [{ const: "admin" }, { const: "user" }],
+          default: "user",
+        },
+      },
+      required: ["name"],
+      additionalProperties: false,
+    });
+    expect(toJsonSchema(catchall(user, number())).additionalProperties)
+      .toEqual({ type: "number" });
+  });
+
+  it("should describe the input side of wrappers", () => {
+    const schema = object({
+      tags: array(string().transform((tag) => tag.toUpperCase())),
+      count: pipe(string(), coerce.number()),
+      at: coerce.date(),
+    });
+    expect(toJsonSchema(schema).properties).toEqual({
+      tags: { type: "array", items: { type: "string" } },
+      count: { type: "string" },
+      at: { type: "string", format: "date-time" },
+    });
+  });
+
+  it("should map discriminated unions to oneOf", () => {
+    const schema = discriminatedUnion("type", [
+      object({ type: literal("a") }),
+      object({ type: literal("b") }),
+    ]);
+    expect(toJsonSchema(schema).oneOf).toHaveLength(2);
+  });
+
+  it("should map intersections to allOf and unwrap brands", () => {
+    const schema = intersect(
+      object({ id: brand(string(), "UserId") }),
+      readonly(object({ age: maybe(int()) })),
+    );
+    expect(toJsonSchema(schema).allOf).toEqual([
+      {
+        type: "object",
+        properties: { id: { type: "string" } },
+        required: ["id"],
+      },
+      {
+        type: "object",
+        properties: { age: { anyOf: [{ type: "integer" }, { type: "null" }] } },
+      },
+    ]);
+  });
+
+  it("should throw for unrepresentable schemas with the offending path", () => {
+    const schema = object({ meta: object({ id: bigint() }) });
+    expect(() => toJsonSchema(schema)).toThrow(JsonSchemaError);
+    expect(() => toJsonSchema(schema)).toThrow(
+      'Cannot represent bigint schema at "meta.id"',
+    );
+    expect(() => toJsonSchema(string(regex(/a/i)))).toThrow(
+      'Cannot represent regex flags "i"',
+    );
+  });
+
+  it("should emit an empty schema for unrepresentable schemas in any mode", () => {
+    const schema = object({ at: date(), name: string(regex(/a/i)) });
+    expect(toJsonSchema(schema, { unrepresentable: "any" }).properties)
+      .toEqual({ at: {}, name: { type: "string" } });
+  });
+
+  it("should reference recursive lazy schemas from $defs", () => {
+    type Category = { name: string; children: Category[] };
+    const category: Schema<Category> = object({
+      name: string(),
+      children: array(lazy(() => category)),
+    });
+    const node = {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        children: { type: "array", items: { $ref: "#/$defs/lazy0" } },
+      },
+      required: ["name", "children"],
+    };
+    expect(toJsonSchema(category)).toEqual({
+      $schema: JSON_SCHEMA_DIALECT,
+      ...node,
+      $defs: { lazy0: node },
+    });
+  });
+
+  it("should describe instants and durations as formatted strings", () => {
+    const schema = object({ at: instant(), ttl: duration() });
+    expect(toJsonSchema(schema).properties).toEqual({
+      at: { type: "string", format: "date-time" },
+      ttl: { type: "string", format: "duration" },
+    });
+  });
+
+  it("should list the options of picklists as enum", () => {
+    expect(toJsonSchema(picklist(["a", 1])).enum).toEqual(["a", 1]);
+  });
+
+  it("should describe tuples and records", () => {
+    const schema = object({
+      point: tuple([number(), number(), maybe(number())]),
+      args: tuple([string()], number()),
+      scores: record(string(uuid()), number()),
+    });
+    expect(toJsonSchema(schema).properties).toEqual({
+      point: {
+        type: "array",
+        prefixItems: [
+          { type: "number" },
+          { type: "number" },
+          { anyOf: [{ type: "number" }, { type: "null" }] },
+        ],
+        items: false,
+        minItems: 2,
+      },
+      args: {
+        type: "array",
+        prefixItems: [{ type: "string" }],
+        items: { type: "number" },
+        minItems: 1,
+      },
+      scores: {
+        type: "object",
+        additionalProperties: { type: "number" },
+        propertyNames: { type: "string", format: "uuid" },
+      },
+    });
+  });
+
+  it("should emit metadata as annotations", () => {
+    const schema = object({
+      name: string().meta({ title: "Name", examples: ["Ada"] }),
+      nickname: maybe(
+        string().describe("Deprecated").meta({
+          deprecated: true,
+        }),
+      ),
+      born: date().meta({ examples: [new Date(0)] }),
+    });
+    expect(toJsonSchema(schema, { unrepresentable: "any" }).properties)
+      .toEqual({
+        name: { type: "string", title: "Name", examples: ["Ada"] },
+        nickname: {
+          anyOf: [
+            { type: "string", description: "Deprecated", deprecated: true },
+            { type: "null" },
+          ],
+        },
+        born: {},
+      });
+  });
+});
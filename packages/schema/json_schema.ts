@@ -0,0 +1,527 @@
+import type {
+  ArraySchema,
+  Check,
+  CheckedSchema,
+  DefaultedSchema,
+  DiscriminatedUnionSchema,
+  IntersectionSchema,
+  LazySchema,
+  LiteralSchema,
+  ObjectSchema,
+  PicklistSchema,
+  PipeSchema,
+  RecordSchema,
+  Schema,
+  TupleSchema,
+  UnionSchema,
+  WrapperSchema,
+} from "./mod.ts";
+
+/**
+ * The URI of the JSON Schema dialect emitted by `toJsonSchema()`.
+ */
+export const JSON_SCHEMA_DIALECT =
+  "https://json-schema.org/draft/2020-12/schema";
+
+/**
+ * Represents a JSON Schema (draft 2020-12) document or subschema.
+ */
+export type JsonSchema = { [keyword: string]: unknown };
+
+/**
+ * Options that control how `toJsonSchema()` converts a schema.
+ */
+export interface JsonSchemaOptions {
+  /**
+   * What to do with schemas and checks that cannot be represented in JSON Schema, such as `bigint()`, `date()` or
+   * a `regex()` with flags:
+   *
+   * - `"throw"`: Throw a `JsonSchemaError` pointing at the offending schema.
+   * - `"any"`: Emit `{}` for unrepresentable schemas and omit unrepresentable checks.
+   *
+   * @default "throw"
+   */
+  readonly unrepresentable?: "throw" | "any";
+}
+
+/**
+ * Represents an error thrown by `toJsonSchema()` when a schema cannot be represented in JSON Schema.
+ */
+export class JsonSchemaError extends Error {
+  /**
+   * Creates a new JsonSchemaError instance.
+   * @param path - The path of the offending schema within the input it describes.
+   * @param message - A description of the problem.
+   */
+  constructor(readonly path: readonly PropertyKey[], message: string) {
+    super(
+      path.length ? `${message} at "${path.map(String).join(".")}"` : message,
+    );
+  }
+}
+
+/**
+ * Converts a schema to a JSON Schema (draft 2020-12) document describing the input it accepts.
+ *
+ * Refinements and custom checks are dropped, transforms are described by the schema they transform, `pipe()` is
+ * described by its first schema, and keys wrapped in `maybe()` or `defaulted()` are not listed as `required`.
+ *
+ * @param schema - The schema to convert.
+ * @param options - Options that control how unrepresentable schemas are handled.
+ * @returns A JSON Schema document.
+ * @throws {JsonSchemaError} If the schema cannot be represented and `unrepresentable` is `"throw"`.
+ */
+export function toJsonSchema(
+  schema: Schema,
+  options: JsonSchemaOptions = {},
+): JsonSchema {
+  const context: Context = {
+    options,
+    names: new Map(),
+    active: new Set(),
+    recursive: new Set(),
+    defs: {},
+  };
+  const root = convert(schema, [], context);
+  return Object.keys(context.defs).length
+    ? { $schema: JSON_SCHEMA_DIALECT, ...root, $defs: context.defs }
+    : { $schema: JSON_SCHEMA_DIALECT, ...root };
+}
+
+/**
+ * The state shared by a single `toJsonSchema()` conversion.
+ */
+interface Context {
+  /**
+   * The conversion options.
+   */
+  readonly options: JsonSchemaOptions;
+
+  /**
+   * The `$defs` names assigned to `lazy()` schemas.
+   */
+  readonly names: Map<Schema, string>;
+
+  /**
+   * The `lazy()` schemas currently being converted.
+   */
+  readonly active: Set<Schema>;
+
+  /**
+   * The `lazy()` schemas that were referenced from within themselves.
+   */
+  readonly recursive: Set<Schema>;
+
+  /**
+   * The definitions of recursive `lazy()` schemas, emitted as `$defs`.
+   */
+  readonly defs: { [name: string]: JsonSchema };
+}
+
+/**
+ * Reports a schema or check that cannot be represented.
+ * @param path - The path of the offending schema.
+ * @param message - A description of the problem.
+ * @param options - The conversion options.
+ * @throws {JsonSchemaError} If `unrepresentable` is `"throw"`.
+ */
+function unrepresentable(
+  path: readonly PropertyKey[],
+  message: string,
+  options: JsonSchemaOptions,
+): void {
+  if ("any" !== options.unrepresentable) {
+    throw new JsonSchemaError(path, message);
+  }
+}
+
+/**
+ * Checks whether a schema accepts `undefined`, so that the key it describes can be left out of `required`.
+ * @param schema - The schema to check.
+ * @param seen - The `lazy()` schemas already visited, to stop at recursive references.
+ * @returns True if the schema accepts a missing value.
+ */
+function isOptional(schema: Schema, seen = new Set<Schema>()): boolean {
+  switch (schema.kind) {
+    case "maybe":
+    case "defaulted":
+      return true;
+    case "refine":
+    case "transform":
+    case "coerce":
+    case "brand":
+    case "readonly":
+      return isOptional((schema as WrapperSchema<Schema>).wrapped, seen);
+    case "pipe":
+      return isOptional((schema as PipeSchema<Schema, Schema>).first, seen);
+    case "union":
+      return (schema as UnionSchema<Schema[]>).options.some((option) =>
+        isOptional(option, seen)
+      );
+    case "lazy":
+      if (seen.has(schema)) return false;
+      seen.add(schema);
+      return isOptional((schema as LazySchema<Schema>).getter(), seen);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Checks whether a value can be written to a JSON Schema, as a `default` or one of the `examples`.
+ * @param value - The value to check.
+ * @returns True if the value is JSON-compatible.
+ */
+function isJsonValue(value: unknown): boolean {
+  if (
+    null === value || "string" === typeof value || "boolean" === typeof value
+  ) {
+    return true;
+  }
+  if ("number" === typeof value) return Number.isFinite(value);
+  if (Array.isArray(value)) return value.every(isJsonValue);
+  if ("object" !== typeof value) return false;
+  const proto = Object.getPrototypeOf(value);
+  if (proto !== null && proto !== Object.prototype) return false;
+  return Object.values(value).every(isJsonValue);
+}
+
+/**
+ * Applies the checks of a string schema as JSON Schema keywords.
+ * @param target - The JSON Schema to add the keywords to.
+ * @param checks - The checks to apply.
+ * @param path - The path of the schema.
+ * @param options - The conversion options.
+ */
+function applyStringChecks(
+  target: JsonSchema,
+  checks: readonly Check<string>[],
+  path: readonly PropertyKey[],
+  options: JsonSchemaOptions,
+): void {
+  for (const { code, params } of checks) {
+    switch (code) {
+      case "min_length":
+        target.minLength = Math.max(
+          (target.minLength as number) ?? 0,
+          params.min as number,
+        );
+        break;
+      case "max_length":
+        target.maxLength = Math.min(
+          (target.maxLength as number) ?? Infinity,
+          params.max as number,
+        );
+        break;
+      case "length":
+        target.minLength = target.maxLength = params.length;
+        break;
+      case "regex":
+        if ((params.flags as string).replace(/[guy]/g, "")) {
+          unrepresentable(
+            path,
+            `Cannot represent regex flags "${params.flags}"`,
+            options,
+          );
+          break;
+        }
+        addPattern(target, params.pattern as string);
+        break;
+      case "email":
+        target.format = "email";
+        break;
+      case "url":
+        target.format = "uri";
+        if (params.protocols) {
+          // `new URL()` lowercases the scheme, so match the allowed protocols in any case.
+          const protocols = (params.protocols as string[]).map((protocol) =>
+            Array.from(protocol, (char) => {
+              const lower = char.toLowerCase();
+              const upper = char.toUpperCase();
+              return lower === upper
+                ? char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&")
+                : `[${lower}${upper}]`;
+            }).join("")
+          );
+          addPattern(target, `^(?:${protocols.join("|")})`);
+        }
+        break;
+      case "uuid":
+        target.format = "uuid";
+        if (params.version) {
+          addPattern(
+            target,
+            `^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-${params.version}[0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}$`,
+          );
+        }
+        break;
+      case "iso_date":
+        target.format = "date";
+        break;
+      case "iso_time":
+        target.format = "time";
+        break;
+      case "iso_datetime":
+        target.format = "date-time";
+        break;
+    }
+  }
+}
+
+/**
+ * Adds a `pattern` to a JSON Schema, moving it to `allOf` if the schema already has one.
+ * @param target - The JSON Schema to add the pattern to.
+ * @param pattern - The pattern.
+ */
+function addPattern(target: JsonSchema, pattern: string): void {
+  if ("pattern" in target) {
+    target.allOf = [...(target.allOf as JsonSchema[] ?? []), { pattern }];
+  } else {
+    target.pattern = pattern;
+  }
+}
+
+/**
+ * Applies the checks of a number schema as JSON Schema keywords.
+ * @param target - The JSON Schema to add the keywords to.
+ * @param checks - The checks to apply.
+ */
+function applyNumberChecks(
+  target: JsonSchema,
+  checks: readonly Check<number>[],
+): void {
+  for (const { code, params } of checks) {
+    switch (code) {
+      case "min":
+      case "positive":
+        target[params.exclusive ? "exclusiveMinimum" : "minimum"] = params.min;
+        break;
+      case "max":
+      case "negative":
+        target[params.exclusive ? "exclusiveMaximum" : "maximum"] = params.max;
+        break;
+      case "multiple_of":
+        target.multipleOf = params.step;
+        break;
+      case "safe_integer":
+        target.type = "integer";
+        target.minimum = Math.max(
+          (target.minimum as number) ?? -Infinity,
+          params.min as number,
+        );
+        target.maximum = Math.min(
+          (target.maximum as number) ?? Infinity,
+          params.max as number,
+        );
+        break;
+    }
+  }
+}
+
+/**
+ * Converts a schema to a JSON Schema subschema, including its metadata.
+ * @param schema - The schema to convert.
+ * @param path - The path of the schema within the input it describes.
+ * @param context - The conversion state.
+ * @returns The JSON Schema subschema.
+ */
+function convert(
+  schema: Schema,
+  path: readonly PropertyKey[],
+  context: Context,
+): JsonSchema {
+  const target = convertKind(schema, path, context);
+  const { title, description, examples, deprecated } = schema.metadata;
+  if (undefined !== title) target.title = title;
+  if (undefined !== description) target.description = description;
+  if (examples?.every(isJsonValue)) target.examples = [...examples];
+  if (undefined !== deprecated) target.deprecated = deprecated;
+  return target;
+}
+
+/**
+ * Converts a schema to a JSON Schema subschema according to its kind.
+ * @param schema - The schema to convert.
+ * @param path - The path of the schema within the input it describes.
+ * @param context - The conversion state.
+ * @returns The JSON Schema subschema.
+ */
+function convertKind(
+  schema: Schema,
+  path: readonly PropertyKey[],
+  context: Context,
+): JsonSchema {
+  const { options } = context;
+  switch (schema.kind) {
+    case "string": {
+      const target: JsonSchema = { type: "string" };
+      const { checks } = schema as CheckedSchema<string>;
+      applyStringChecks(target, checks, path, options);
+      return target;
+    }
+    case "number":
+    case "int": {
+      const target: JsonSchema = {
+        type: "int" === schema.kind ? "integer" : "number",
+      };
+      applyNumberChecks(target, (schema as CheckedSchema<number>).checks);
+      return target;
+    }
+    case "boolean":
+      return { type: "boolean" };
+    case "unknown":
+      return {};
+    case "never":
+      return { not: {} };
+    case "instant":
+      return { type: "string", format: "date-time" };
+    case "duration":
+      return { type: "string", format: "duration" };
+    case "literal":
+      return { const: (schema as LiteralSchema<null>).value };
+    case "picklist":
+    case "native_enum":
+      return { enum: [...(schema as PicklistSchema<string>).options] };
+    case "array": {
+      const { item } = schema as ArraySchema<Schema>;
+      return { type: "array", items: convert(item, [...path, 0], context) };
+    }
+    case "tuple": {
+      const { items, rest } = schema as TupleSchema<Schema[], Schema>;
+      let minItems = items.length;
+      while (minItems > 0 && isOptional(items[minItems - 1])) minItems--;
+      const target: JsonSchema = {
+        type: "array",
+        prefixItems: items.map((item, i) =>
+          convert(item, [...path, i], context)
+        ),
+        items: rest ? convert(rest, [...path, items.length], context) : false,
+      };
+      if (minItems) target.minItems = minItems;
+      return target;
+    }
+    case "record": {
+      const { key, value } = schema as RecordSchema<Schema<string>, Schema>;
+      const propertyNames = convert(key, path, context);
+      const target: JsonSchema = {
+        type: "object",
+        additionalProperties: convert(value, path, context),
+      };
+      if (
+        "string" !== propertyNames.type || 1 < Object.keys(propertyNames).length
+      ) {
+        target.propertyNames = propertyNames;
+      }
+      return target;
+    }
+    case "object": {
+      const { shape, unknownKeys, catchall } = schema as ObjectSchema<
+        { [key: string]: unknown },
+        unknown,
+        unknown
+      >;
+      const properties: { [key: string]: JsonSchema } = {};
+      const required: string[] = [];
+      for (const key in shape) {
+        // Defined rather than assigned, so that a `__proto__` key does not replace the prototype.
+        Object.defineProperty(properties, key, {
+          value: convert(shape[key], [...path, key], context),
+          writable: true,
+          enumerable: true,
+          configurable: true,
+        });
+        if (!isOptional(shape[key])) required.push(key);
+      }
+      const target: JsonSchema = { type: "object", properties };
+      if (required.length) target.required = required;
+      if ("strict" === unknownKeys) target.additionalProperties = false;
+      if (catchall) {
+        target.additionalProperties = convert(catchall, path, context);
+      }
+      return target;
+    }
+    case "maybe": {
+      const { wrapped } = schema as WrapperSchema<Schema>;
+      const target = convert(wrapped, path, context);
+      if (!Object.keys(target).length) return target;
+      return { anyOf: [target, { type: "null" }] };
+    }
+    case "defaulted": {
+      const { wrapped, default: value } = schema as DefaultedSchema<Schema>;
+      const target = convert(wrapped, path, context);
+      return isJsonValue(value) ? { ...target, default: value } : target;
+    }
+    case "union":
+      return {
+        anyOf: (schema as UnionSchema<Schema[]>).options.map((option) =>
+          convert(option, path, context)
+        ),
+      };
+    case "discriminated_union":
+      return {
+        oneOf: (schema as DiscriminatedUnionSchema<string, never[]>).options
+          .map((option) => convert(option, path, context)),
+      };
+    case "coerce": {
+      const { wrapped } = schema as WrapperSchema<Schema>;
+      if ("date" === wrapped.kind) {
+        return { type: "string", format: "date-time" };
+      }
+      return convert(wrapped, path, context);
+    }
+    case "required":
+    case "refine":
+    case "transform":
+    case "brand":
+    case "readonly":
+      return convert((schema as WrapperSchema<Schema>).wrapped, path, context);
+    case "intersection": {
+      const { first, second } = schema as IntersectionSchema<Schema, Schema>;
+      return {
+        allOf: [
+          convert(first, path, context),
+          convert(second, path, context),
+        ],
+      };
+    }
+    case "pipe":
+      return convert(
+        (schema as PipeSchema<Schema, Schema>).first,
+        path,
+        context,
+      );
+    case "lazy":
+      return convertLazy(schema as LazySchema<Schema>, path, context);
+    default:
+      unrepresentable(path, `Cannot represent ${schema.kind} schema`, options);
+      return {};
+  }
+}
+
+/**
+ * Converts a `lazy()` schema, moving it to `$defs` and referencing it with `$ref` if it refers to itself.
+ * @param schema - The lazy schema to convert.
+ * @param path - The path of the schema within the input it describes.
+ * @param context - The conversion state.
+ * @returns The JSON Schema subschema.
+ */
+function convertLazy(
+  schema: LazySchema<Schema>,
+  path: readonly PropertyKey[],
+  context: Context,
+): JsonSchema {
+  const name = context.names.get(schema) ?? `lazy${context.names.size}`;
+  const ref = { $ref: `#/$defs/${name}` };
+  context.names.set(schema, name);
+  if (name in context.defs) return ref;
+  if (context.active.has(schema)) {
+    context.recursive.add(schema);
+    return ref;
+  }
+  context.active.add(schema);
+  const target = convert(schema.getter(), path, context);
+  context.active.delete(schema);
+  if (!context.recursive.has(schema)) return target;
+  context.defs[name] = target;
+  return ref;
+}
@@ -1,17 +1,108 @@
 import { expect } from "jsr:@std/expect";
 import { describe, it } from "jsr:@std/testing/bdd";
+import type { StandardSchemaV1 } from "@standard-schema/spec";
 import {
   array,
+  bigint,
+  blob,
   boolean,
+  brand,
+  catchall,
+  coerce,
+  date,
   defaulted,
+  discriminatedUnion,
+  duration,
+  email,
+  extend,
+  extension,
+  file,
+  fileName,
+  flattenIssues,
+  formatIssues,
+  formatPath,
+  fromStandard,
+  gt,
+  type InferInput,
+  type InferOutput,
+  instant,
+  int,
+  intersect,
+  isoDate,
+  isoDateTime,
+  isoTime,
+  type Issue,
+  lazy,
+  length,
   literal,
+  lt,
+  magicBytes,
+  map,
+  max,
+  maxLength,
+  maxSize,
   maybe,
+  merge,
+  type MessageContext,
+  mimeType,
+  min,
+  minLength,
+  minSize,
+  multipleOf,
+  nativeEnum,
+  negative,
+  never,
   number,
   object,
+  omit,
+  partial,
+  passthrough,
+  pick,
+  picklist,
+  pipe,
+  positive,
+  readonly,
+  record,
+  regex,
+  required,
+  safeInteger,
+  type Schema,
   SchemaError,
+  set,
+  setMessageResolver,
+  strict,
   string,
+  treeifyIssues,
+  tuple,
+  union,
+  unknown,
+  url,
+  uuid,
 } from "./mod.ts";
 
+/**
+ * Builds the issue reported for an input of the wrong type.
+ */
+function typeIssue(
+  expected: string,
+  received: string,
+  path?: PropertyKey[],
+): Issue {
+  return {
+    message: `Expected ${expected}`,
+    code: "invalid_type",
+    params: { expected, received },
+    ...(path && { path }),
+  };
+}
+
+/**
+ * Builds the issue reported by a failed refinement.
+ */
+function customIssue(message: string, path?: PropertyKey[]): Issue {
+  return { message, code: "custom", params: {}, ...(path && { path }) };
+}
+
 describe("string()", () => {
   it("should validate a string input", () => {
     const schema = string();
@@ -22,7 +113,7 @@ describe("string()", () => {
   it("should reject non-string inputs", () => {
     const schema = string();
     const result = schema.safeParse(123);
-    expect(result.issues).toEqual([{ message: "Expected string" }]);
+    expect(result.issues).toEqual([typeIssue("string", "number")]);
   });
 
   it("should throw SchemaError on invalid input when using parse", () => {
@@ -31,6 +122,148 @@ describe("string()", () => {
   });
 });
 
+describe("string checks", () => {
+  it("should run checks passed to string()", () => {
+    const schema = string(minLength(2), maxLength(4));
+    expect(schema.safeParse("abc")).toEqual({ value: "abc" });
+    expect(schema.safeParse("a").issues).toEqual([
+      {
+        message: "Expected at least 2 characters",
+        code: "min_length",
+        params: { min: 2 },
+      },
+    ]);
+    expect(schema.safeParse("abcde").issues).toEqual([
+      {
+        message: "Expected at most 4 characters",
+        code: "max_length",
+        params: { max: 4 },
+      },
+    ]);
+  });
+
+  it("should accept a custom type message before the checks", () => {
+    const schema = string("Name is required", minLength(1, "Too short"));
+    expect(schema.safeParse(1).issues).toEqual([
+      { ...typeIssue("string", "number"), message: "Name is required" },
+    ]);
+    expect(schema.safeParse("").issues?.[0].message).toBe("Too short");
+  });
+
+  it("should report every failed check when abortEarly is false", () => {
+    const schema = string(minLength(5), email());
+    const result = schema.safeParse("a@b", { abortEarly: false });
+    expect(result.issues?.map((issue) => issue.code)).toEqual([
+      "min_length",
+      "email",
+    ]);
+    expect(schema.safeParse("a@b").issues).toHaveLength(1);
+  });
+
+  it("should prefix the path when nested", () => {
+    const schema = object({ name: string(minLength(3)) });
+    expect(schema.safeParse({ name: "ab" }).issues?.[0].path).toEqual([
+      "name",
+    ]);
+  });
+
+  it("length() should require an exact length", () => {
+    const schema = string(length(2));
+    expect(schema.safeParse("ab").issues).toBeUndefined();
+    expect(schema.safeParse("abc").issues?.[0].code).toBe("length");
+  });
+
+  it("regex() should match the pattern", () => {
+    const schema = string(regex(/^[a-z]+$/));
+    expect(schema.safeParse("abc").issues).toBeUndefined();
+    expect(schema.safeParse("ABC").issues).toEqual([
+      {
+        message: "Invalid format",
+        code: "regex",
+        params: { pattern: "^[a-z]+$", flags: "" },
+      },
+    ]);
+  });
+
+  it("email() should validate email addresses", () => {
+    const schema = string(email());
+    expect(schema.safeParse("alice@example.com").issues).toBeUndefined();
+    expect(schema.safeParse("alice.b+tag@mail.example.co").issues)
+      .toBeUndefined();
+    expect(schema.safeParse("alice@").issues?.[0].code).toBe("email");
+    expect(schema.safeParse("alice@example").issues?.[0].code).toBe("email");
+    expect(schema.safeParse("a lice@example.com").issues?.[0].code).toBe(
+      "email",
+    );
+  });
+
+  it("url() should validate absolute URLs", () => {
+    const schema = string(url());
+    expect(schema.safeParse("https://example.com/a?b=c").issues)
+      .toBeUndefined();
+    expect(schema.safeParse("/relative").issues?.[0].code).toBe("url");
+  });
+
+  it("url() should restrict protocols", () => {
+    const schema = string(url(["https:"]));
+    expect(schema.safeParse("https://example.com").issues).toBeUndefined();
+    expect(schema.safeParse("http://example.com").issues?.[0].params).toEqual(
+      { protocols: ["https:"] },
+    );
+  });
+
+  it("uuid() should validate UUIDs", () => {
+    const schema = string(uuid());
+    expect(schema.safeParse("6ba7b810-9dad-11d1-80b4-00c04fd430c8").issues)
+      .toBeUndefined();
+    expect(schema.safeParse("00000000-0000-0000-0000-000000000000").issues)
+      .toBeUndefined();
+    expect(schema.safeParse("not-a-uuid").issues?.[0].code).toBe("uuid");
+  });
+
+  it("uuid() should validate the version", () => {
+    const v4 = string(uuid(4));
+    const v7 = string(uuid(7));
+    const a = "9b2d5c3e-6f1a-4b7c-8d9e-0a1b2c3d4e5f";
+    const b = "01890a5d-ac96-774b-bcce-b302099a8057";
+    expect(v4.safeParse(a).issues).toBeUndefined();
+    expect(v4.safeParse(b).issues?.[0].message).toBe("Invalid UUID v4");
+    expect(v7.safeParse(b).issues).toBeUndefined();
+    expect(v7.safeParse(a).issues?.[0].params).toEqual({ version: 7 });
+  });
+
+  it("isoDate() should validate calendar dates", () => {
+    const schema = string(isoDate());
+    expect(schema.safeParse("2024-02-29").issues).toBeUndefined();
+    expect(schema.safeParse("2023-02-29").issues?.[0].code).toBe("iso_date");
+    expect(schema.safeParse("2024-13-01").issues?.[0].code).toBe("iso_date");
+    expect(schema.safeParse("2024-1-01").issues?.[0].code).toBe("iso_date");
+    expect(schema.safeParse("0050-01-01").issues).toBeUndefined();
+    expect(schema.safeParse("0000-02-29").issues).toBeUndefined();
+  });
+
+  it("isoTime() should validate times of day", () => {
+    const schema = string(isoTime());
+    expect(schema.safeParse("23:59").issues).toBeUndefined();
+    expect(schema.safeParse("23:59:59.123").issues).toBeUndefined();
+    expect(schema.safeParse("24:00").issues?.[0].code).toBe("iso_time");
+  });
+
+  it("isoDateTime() should validate date-times with a timezone", () => {
+    const schema = string(isoDateTime());
+    expect(schema.safeParse("2024-05-01T10:30:00Z").issues).toBeUndefined();
+    expect(schema.safeParse("2024-05-01T10:30:00.5+02:00").issues)
+      .toBeUndefined();
+    expect(schema.safeParse("0050-01-01T00:00:00Z").issues).toBeUndefined();
+    expect(schema.safeParse("2024-05-01T10:30:00").issues?.[0].code).toBe(
+      "iso_datetime",
+    );
+    expect(schema.safeParse("2024-02-30T10:30:00Z").issues?.[0].code).toBe(
+      "iso_datetime",
+    );
+  });
+});
+
 describe("number()", () => {
   it("should validate a number input", () => {
     const schema = number();
@@ -41,7 +274,7 @@ describe("number()", () => {
   it("should reject non-number inputs", () => {
     const schema = number();
     const result = schema.safeParse("not a number");
-    expect(result.issues).toEqual([{ message: "Expected number" }]);
+    expect(result.issues).toEqual([typeIssue("number", "string")]);
   });
 
   it("should reject NaN and Infinity", () => {
@@ -51,6 +284,148 @@ describe("number()", () => {
   });
 });
 
+describe("number checks", () => {
+  it("min() and max() should be inclusive", () => {
+    const schema = number(min(1), max(3));
+    expect(schema.safeParse(1).issues).toBeUndefined();
+    expect(schema.safeParse(3).issues).toBeUndefined();
+    expect(schema.safeParse(0).issues).toEqual([
+      {
+        message: "Expected a value greater than or equal to 1",
+        code: "min",
+        params: { min: 1, exclusive: false },
+      },
+    ]);
+    expect(schema.safeParse(4).issues?.[0].params).toEqual({
+      max: 3,
+      exclusive: false,
+    });
+  });
+
+  it("gt() and lt() should be exclusive", () => {
+    const schema = number(gt(1), lt(3));
+    expect(schema.safeParse(2).issues).toBeUndefined();
+    expect(schema.safeParse(1).issues).toEqual([
+      {
+        message: "Expected a value greater than 1",
+        code: "min",
+        params: { min: 1, exclusive: true },
+      },
+    ]);
+    expect(schema.safeParse(3).issues?.[0].params).toEqual({
+      max: 3,
+      exclusive: true,
+    });
+  });
+
+  it("positive() and negative() should exclude zero", () => {
+    expect(number(positive()).safeParse(0).issues?.[0].message).toBe(
+      "Expected a positive number",
+    );
+    expect(number(negative()).safeParse(0).issues?.[0].message).toBe(
+      "Expected a negative number",
+    );
+    expect(number(positive()).safeParse(0.1).issues).toBeUndefined();
+    expect(number(negative()).safeParse(-0.1).issues).toBeUndefined();
+  });
+
+  it("multipleOf() should handle decimal steps", () => {
+    const schema = number(multipleOf(0.01));
+    expect(schema.safeParse(0.3).issues).toBeUndefined();
+    expect(schema.safeParse(19.99).issues).toBeUndefined();
+    expect(schema.safeParse(0.001).issues).toEqual([
+      {
+        message: "Expected a multiple of 0.01",
+        code: "multiple_of",
+        params: { step: 0.01 },
+      },
+    ]);
+  });
+
+  it("multipleOf() should scale its tolerance with the step", () => {
+    expect(number(multipleOf(1e-12)).safeParse(3e-12).issues).toBeUndefined();
+    expect(number(multipleOf(1e-12)).safeParse(1.5e-12).issues).toBeDefined();
+    expect(number(multipleOf(1e20)).safeParse(3e21).issues).toBeUndefined();
+    expect(number(multipleOf(1e20)).safeParse(1.5e20).issues).toBeDefined();
+  });
+
+  it("multipleOf() should reject steps that are not positive", () => {
+    expect(() => multipleOf(0)).toThrow(RangeError);
+    expect(() => multipleOf(-1)).toThrow(RangeError);
+    expect(() => multipleOf(0n)).toThrow(RangeError);
+    expect(() => multipleOf(-2n)).toThrow(RangeError);
+    expect(() => multipleOf(NaN)).toThrow(RangeError);
+  });
+
+  it("safeInteger() should reject integers beyond 2^53 - 1", () => {
+    const schema = number(safeInteger());
+    expect(schema.safeParse(Number.MAX_SAFE_INTEGER).issues).toBeUndefined();
+    expect(schema.safeParse(2 ** 53).issues?.[0].code).toBe("safe_integer");
+    expect(schema.safeParse(1.5).issues?.[0].code).toBe("safe_integer");
+  });
+
+  it("should compose with array() and object()", () => {
+    const schema = object({ scores: array(number(min(0), max(100))) });
+    expect(schema.safeParse({ scores: [10, 101] }).issues).toEqual([
+      {
+        message: "Expected a value less than or equal to 100",
+        code: "max",
+        params: { max: 100, exclusive: false },
+        path: ["scores", 1],
+      },
+    ]);
+  });
+});
+
+describe("int()", () => {
+  it("should validate integers", () => {
+    expect(int().safeParse(42)).toEqual({ value: 42 });
+    expect(int().safeParse(-0)).toEqual({ value: -0 });
+  });
+
+  it("should reject non-integers", () => {
+    expect(int().safeParse(1.5).issues).toEqual([
+      typeIssue("integer", "number"),
+    ]);
+    expect(int().safeParse("1").issues).toEqual([
+      typeIssue("integer", "string"),
+    ]);
+    expect(int().safeParse(Infinity).issues).toBeDefined();
+  });
+
+  it("should run checks", () => {
+    const schema = int("Expected an ID", positive(), safeInteger());
+    expect(schema.safeParse(0).issues?.[0].code).toBe("positive");
+    expect(schema.safeParse(0.5).issues).toEqual([{
+      ...typeIssue("integer", "number"),
+      message: "Expected an ID",
+    }]);
+  });
+});
+
+describe("bigint()", () => {
+  it("should validate bigints", () => {
+    expect(bigint().safeParse(42n)).toEqual({ value: 42n });
+  });
+
+  it("should reject non-bigints", () => {
+    expect(bigint().safeParse(42).issues).toEqual([
+      typeIssue("bigint", "number"),
+    ]);
+  });
+
+  it("should run bigint checks", () => {
+    const schema = bigint(min(0n), lt(10n), multipleOf(2n));
+    expect(schema.safeParse(4n).issues).toBeUndefined();
+    expect(schema.safeParse(-2n).issues?.[0].params).toEqual({
+      min: 0n,
+      exclusive: false,
+    });
+    expect(schema.safeParse(10n).issues?.[0].code).toBe("max");
+    expect(schema.safeParse(3n).issues?.[0].code).toBe("multiple_of");
+  });
+});
+
 describe("boolean()", () => {
   it("should validate a boolean input", () => {
     const schema = boolean();
@@ -61,7 +436,302 @@ describe("boolean()", () => {
   it("should reject non-boolean inputs", () => {
     const schema = boolean();
     const result = schema.safeParse("not a boolean");
-    expect(result.issues).toEqual([{ message: "Expected boolean" }]);
+    expect(result.issues).toEqual([typeIssue("boolean", "string")]);
+  });
+});
+
+describe("unknown() and never()", () => {
+  it("unknown() should accept any input", () => {
+    const value = { a: [1] };
+    expect(unknown().safeParse(value)).toEqual({ value });
+    expect(unknown().safeParse(undefined)).toEqual({ value: undefined });
+  });
+
+  it("never() should reject every input", () => {
+    expect(never().safeParse(undefined).issues).toEqual([
+      typeIssue("never", "undefined"),
+    ]);
+    expect(never("Not allowed").safeParse(1).issues?.[0].message).toBe(
+      "Not allowed",
+    );
+  });
+});
+
+describe("date()", () => {
+  it("should validate a Date instance", () => {
+    const value = new Date("2024-05-01T00:00:00Z");
+    expect(date().safeParse(value)).toEqual({ value });
+  });
+
+  it("should reject invalid dates and non-dates", () => {
+    expect(date().safeParse(new Date("foo")).issues).toEqual([
+      typeIssue("date", "date"),
+    ]);
+    expect(date().safeParse("2024-05-01").issues).toEqual([
+      typeIssue("date", "string"),
+    ]);
+  });
+});
+
+describe("date bounds", () => {
+  const from = new Date("2024-01-01T00:00:00Z");
+  const to = new Date("2024-12-31T00:00:00Z");
+
+  it("date() should run min() and max() checks", () => {
+    const schema = date(min(from), max(to));
+    const value = new Date("2024-06-01T00:00:00Z");
+    expect(schema.safeParse(value)).toEqual({ value });
+    expect(schema.safeParse(new Date("2023-12-31T00:00:00Z")).issues).toEqual([
+      {
+        message:
+          "Expected a value greater than or equal to 2024-01-01T00:00:00.000Z",
+        code: "min",
+        params: { min: from, exclusive: false },
+      },
+    ]);
+    expect(schema.safeParse(new Date("2025-01-01")).issues?.[0].code).toBe(
+      "max",
+    );
+  });
+
+  it("gt() and lt() should exclude the bound", () => {
+    const schema = date(gt(from), lt(to));
+    expect(schema.safeParse(from).issues?.[0].code).toBe("min");
+    expect(schema.safeParse(to).issues?.[0].code).toBe("max");
+  });
+});
+
+describe("instant()", () => {
+  it("should parse ISO date-time strings to dates", () => {
+    const schema = instant();
+    const value: Date = schema.parse("2024-05-01T10:30:00+02:00");
+    expect(value).toEqual(new Date("2024-05-01T08:30:00Z"));
+  });
+
+  it("should reject non-strings and invalid date-times", () => {
+    const schema = instant();
+    expect(schema.safeParse(new Date()).issues).toEqual([
+      typeIssue("string", "date"),
+    ]);
+    for (const input of ["2024-05-01", "2024-02-30T00:00:00Z", "yesterday"]) {
+      expect(schema.safeParse(input).issues).toEqual([
+        { message: "Invalid ISO date-time", code: "iso_datetime", params: {} },
+      ]);
+    }
+  });
+
+  it("should run checks on the parsed date", () => {
+    const schema = instant(min(new Date("2024-01-01T00:00:00Z")));
+    expect(schema.safeParse("2023-12-31T23:59:59Z").issues?.[0].code).toBe(
+      "min",
+    );
+  });
+});
+
+describe("duration()", () => {
+  it("should parse ISO durations to their components", () => {
+    expect(duration().parse("P1Y2M3DT4H5M6.5S")).toEqual({
+      years: 1,
+      months: 2,
+      weeks: 0,
+      days: 3,
+      hours: 4,
+      minutes: 5,
+      seconds: 6.5,
+    });
+    expect(duration().parse("P2W")).toMatchObject({ weeks: 2, days: 0 });
+    expect(duration().parse("-PT1,5H")).toMatchObject({ hours: -1.5 });
+  });
+
+  it("should reject malformed durations", () => {
+    for (const input of ["P", "PT", "P1H", "1D", "P1DT"]) {
+      expect(duration().safeParse(input).issues).toEqual([
+        { message: "Invalid ISO duration", code: "iso_duration", params: {} },
+      ]);
+    }
+    expect(duration().safeParse(60).issues).toEqual([
+      typeIssue("string", "number"),
+    ]);
+  });
+});
+
+describe("blob() and file()", () => {
+  const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  const avatar = new File([png], "avatar.png", { type: "image/png" });
+
+  it("should validate Blob and File instances", () => {
+    const data = new Blob(["hello"], { type: "text/plain" });
+    expect(blob().safeParse(data)).toEqual({ value: data });
+    expect(blob().safeParse(avatar)).toEqual({ value: avatar });
+    expect(file().safeParse(avatar)).toEqual({ value: avatar });
+    expect(file().safeParse(data).issues).toEqual([typeIssue("file", "blob")]);
+    expect(blob().safeParse("hello").issues).toEqual([
+      typeIssue("blob", "string"),
+    ]);
+  });
+
+  it("minSize() and maxSize() should bound the size in bytes", () => {
+    const schema = blob(minSize(2), maxSize(4));
+    expect(schema.safeParse(new Blob(["abc"])).issues).toBeUndefined();
+    expect(schema.safeParse(new Blob(["a"])).issues).toEqual([
+      {
+        message: "Expected at least 2 bytes",
+        code: "min_size",
+        params: { min: 2 },
+      },
+    ]);
+    expect(schema.safeParse(new Blob(["abcde"])).issues).toEqual([
+      {
+        message: "Expected at most 4 bytes",
+        code: "max_size",
+        params: { max: 4 },
+      },
+    ]);
+  });
+
+  it("mimeType() should match types and wildcards", () => {
+    const schema = blob(mimeType(["image/*", "application/pdf"]));
+    for (const type of ["image/png", "IMAGE/JPEG", "application/pdf; v=1"]) {
+      expect(schema.safeParse(new Blob([], { type })).issues).toBeUndefined();
+    }
+    for (const type of ["text/plain", "application/pdfx", ""]) {
+      expect(schema.safeParse(new Blob([], { type })).issues).toEqual([
+        {
+          message: "Expected a type of image/*, application/pdf",
+          code: "mime_type",
+          params: { types: ["image/*", "application/pdf"] },
+        },
+      ]);
+    }
+    const any = blob(mimeType(["*/*"]));
+    expect(any.safeParse(new Blob([], { type: "text/plain" })).issues)
+      .toBeUndefined();
+    expect(any.safeParse(new Blob([])).issues?.[0].code).toBe("mime_type");
+  });
+
+  it("extension() and fileName() should check the file name", () => {
+    const schema = file(
+      extension([".png", "JPG"]),
+      fileName(/^[\w-]+\.\w+$/, "Use letters, digits and dashes"),
+    );
+    expect(schema.safeParse(avatar).issues).toBeUndefined();
+    expect(schema.safeParse(new File([], "Photo.jpg")).issues).toBeUndefined();
+    expect(schema.safeParse(new File([], "notes.txt")).issues).toEqual([
+      {
+        message: "Expected an extension of .png, JPG",
+        code: "extension",
+        params: { extensions: [".png", "JPG"] },
+      },
+    ]);
+    expect(schema.safeParse(new File([], "my photo.png")).issues).toEqual([
+      {
+        message: "Use letters, digits and dashes",
+        code: "file_name",
+        params: { pattern: "^[\\w-]+\\.\\w+$", flags: "" },
+      },
+    ]);
+  });
+
+  it("magicBytes() should compare the content with the declared type", async () => {
+    const schema = magicBytes(file(mimeType(["image/*"])));
+    const value: File = await schema.parseAsync(avatar);
+    expect(value).toBe(avatar);
+    const fake = new File(["MZ"], "avatar.png", { type: "image/png" });
+    expect((await schema.safeParseAsync(fake)).issues).toEqual([
+      {
+        message: "Content does not match the declared type",
+        code: "magic_bytes",
+        params: {},
+      },
+    ]);
+    const svg = new File(["<svg/>"], "icon.svg", { type: "image/svg+xml" });
+    expect(await schema.safeParseAsync(svg)).toEqual({ value: svg });
+    expect(() => schema.safeParse(avatar)).toThrow(
+      "Schema contains async validation",
+    );
+  });
+});
+
+describe("coerce", () => {
+  it("number() should convert numeric strings", () => {
+    const schema = coerce.number();
+    expect(schema.safeParse("42")).toEqual({ value: 42 });
+    expect(schema.safeParse(" 4.5 ")).toEqual({ value: 4.5 });
+    expect(schema.safeParse(42)).toEqual({ value: 42 });
+  });
+
+  it("number() should reject blank and non-numeric strings", () => {
+    const schema = coerce.number();
+    expect(schema.safeParse("").issues).toEqual([
+      typeIssue("number", "string"),
+    ]);
+    expect(schema.safeParse("abc").issues).toEqual([
+      typeIssue("number", "nan"),
+    ]);
+  });
+
+  it("number() should validate with the given schema", () => {
+    const schema = coerce.number(int("Expected whole number", min(0)));
+    expect(schema.safeParse("3")).toEqual({ value: 3 });
+    expect(schema.safeParse("3.5").issues).toEqual([
+      { ...typeIssue("integer", "number"), message: "Expected whole number" },
+    ]);
+    expect(schema.safeParse("-1").issues?.[0].code).toBe("min");
+  });
+
+  it("bigint() should convert integer strings and numbers", () => {
+    const schema = coerce.bigint();
+    expect(schema.safeParse("9007199254740993")).toEqual({
+      value: 9007199254740993n,
+    });
+    expect(schema.safeParse(42)).toEqual({ value: 42n });
+    expect(schema.safeParse("1.5").issues).toEqual([
+      typeIssue("bigint", "string"),
+    ]);
+  });
+
+  it("boolean() should convert checkbox and query string values", () => {
+    const schema = coerce.boolean();
+    for (const value of ["true", "on", "yes", "1", "TRUE"]) {
+      expect(schema.safeParse(value)).toEqual({ value: true });
+    }
+    for (const value of ["false", "off", "no", "0"]) {
+      expect(schema.safeParse(value)).toEqual({ value: false });
+    }
+    expect(schema.safeParse(true)).toEqual({ value: true });
+    expect(schema.safeParse("maybe").issues).toEqual([
+      typeIssue("boolean", "string"),
+    ]);
+  });
+
+  it("date() should convert ISO strings and timestamps", () => {
+    const schema = coerce.date();
+    expect(schema.parse("2024-05-01")).toEqual(new Date("2024-05-01"));
+    expect(schema.parse("2024-05-01T10:30:00+02:00")).toEqual(
+      new Date("2024-05-01T08:30:00Z"),
+    );
+    expect(schema.parse(0)).toEqual(new Date(0));
+    expect(schema.safeParse("01/05/2024").issues).toEqual([
+      typeIssue("date", "string"),
+    ]);
+    expect(schema.safeParse("2023-02-30").issues).toEqual([
+      typeIssue("date", "string"),
+    ]);
+    expect(schema.safeParse("2023-02-30T10:30:00Z").issues).toEqual([
+      typeIssue("date", "string"),
+    ]);
+  });
+
+  it("should validate decoded form data", () => {
+    const schema = object({
+      age: coerce.number(),
+      subscribe: defaulted(coerce.boolean(), false),
+      birthday: coerce.date(),
+    });
+    const result = schema.safeParse({ age: "42", birthday: "1990-01-31" });
+    expect(result).toEqual({
+      value: { age: 42, subscribe: false, birthday: new Date("1990-01-31") },
+    });
   });
 });
 
@@ -75,13 +745,124 @@ describe("array()", () => {
   it("should reject non-array inputs", () => {
     const schema = array(number());
     const result = schema.safeParse("not an array");
-    expect(result.issues).toEqual([{ message: "Expected array" }]);
+    expect(result.issues).toEqual([typeIssue("array", "string")]);
   });
 
   it("should reject arrays with invalid elements", () => {
     const schema = array(number());
     const result = schema.safeParse([1, "not a number", 3]);
-    expect(result.issues).toEqual([{ message: "Expected number", path: [1] }]);
+    expect(result.issues).toEqual([typeIssue("number", "string", [1])]);
+  });
+
+  it("should collect every invalid element when abortEarly is false", () => {
+    const schema = array(number());
+    const result = schema.safeParse([1, "a", 3, "b"], { abortEarly: false });
+    expect(result.issues).toEqual([
+      typeIssue("number", "string", [1]),
+      typeIssue("number", "string", [3]),
+    ]);
+  });
+});
+
+describe("tuple()", () => {
+  it("should validate items by position", () => {
+    const schema = tuple([string(), number()]);
+    const value: [string, number] = schema.parse(["a", 1]);
+    expect(value).toEqual(["a", 1]);
+    expect(schema.safeParse(["a", "b"]).issues).toEqual([
+      typeIssue("number", "string", [1]),
+    ]);
+    expect(schema.safeParse({}).issues).toEqual([typeIssue("array", "object")]);
+  });
+
+  it("should validate missing trailing items as undefined", () => {
+    const schema = tuple([string(), maybe(number())]);
+    expect(schema.parse(["a"])).toEqual(["a", undefined]);
+    expect(schema.safeParse([]).issues).toEqual([
+      typeIssue("string", "undefined", [0]),
+    ]);
+  });
+
+  it("should reject extra items without a rest schema", () => {
+    expect(tuple([string()]).safeParse(["a", "b"]).issues).toEqual([{
+      message: "Expected at most 1 item",
+      code: "max_items",
+      params: { max: 1 },
+    }]);
+  });
+
+  it("should validate extra items against the rest schema", () => {
+    const schema = tuple([string()], number());
+    const value: [string, ...number[]] = schema.parse(["a", 1, 2]);
+    expect(value).toEqual(["a", 1, 2]);
+    expect(schema.rest).toBeDefined();
+    expect(schema.safeParse(["a", 1, "2"]).issues).toEqual([
+      typeIssue("number", "string", [2]),
+    ]);
+  });
+});
+
+describe("record()", () => {
+  const scores = record(string(uuid()), int());
+
+  it("should validate keys and values", () => {
+    const id = "6f1c7c1e-3b8a-4a5e-9d2f-1a2b3c4d5e6f";
+    const value: Record<string, number> = scores.parse({ [id]: 3 });
+    expect(value).toEqual({ [id]: 3 });
+    expect(scores.safeParse({ abc: 3 }).issues).toEqual([
+      { message: "Invalid UUID", code: "uuid", params: {}, path: ["abc"] },
+    ]);
+    expect(scores.safeParse({ [id]: "3" }).issues).toEqual([
+      typeIssue("integer", "string", [id]),
+    ]);
+  });
+
+  it("should only accept plain objects", () => {
+    expect(scores.safeParse(new Map()).issues).toEqual([
+      typeIssue("object", "object"),
+    ]);
+    expect(scores.safeParse([]).issues).toEqual([typeIssue("object", "array")]);
+  });
+
+  it("should not copy a __proto__ key onto the prototype", () => {
+    const result = record(string(), number()).parse(
+      JSON.parse('{"__proto__": 1}'),
+    );
+    expect(Object.getPrototypeOf(result)).toBeNull();
+    expect(Object.keys(result)).toEqual(["__proto__"]);
+  });
+});
+
+describe("map() and set()", () => {
+  it("map() should validate keys and values", () => {
+    const schema = map(string(), number());
+    const value: Map<string, number> = schema.parse(new Map([["a", 1]]));
+    expect(value).toEqual(new Map([["a", 1]]));
+    expect(schema.safeParse(new Map([["a", "1"]])).issues).toEqual([
+      typeIssue("number", "string", ["a"]),
+    ]);
+    expect(schema.safeParse(new Map([[1, 1]])).issues).toEqual([
+      typeIssue("string", "number", [1]),
+    ]);
+    expect(schema.safeParse({ a: 1 }).issues).toEqual([
+      typeIssue("map", "object"),
+    ]);
+  });
+
+  it("map() should report object keys at the position of the entry", () => {
+    const schema = map(object({ id: string() }), number());
+    expect(schema.safeParse(new Map([[{ id: "a" }, 1], [{ id: 2 }, 2]])).issues)
+      .toEqual([typeIssue("string", "number", [1, "id"])]);
+  });
+
+  it("set() should validate items", () => {
+    const schema = set(number());
+    const value: Set<number> = schema.parse(new Set([1, 2]));
+    expect(value).toEqual(new Set([1, 2]));
+    expect(schema.safeParse(new Set([1, "2"])).issues).toEqual([
+      typeIssue("number", "string", [1]),
+    ]);
+    expect(schema.safeParse([1]).issues).toEqual([typeIssue("set", "array")]);
   });
 });
 
@@ -98,7 +879,7 @@ describe("object()", () => {
   it("should reject non-object inputs", () => {
     const schema = object({});
     const result = schema.safeParse("not an object");
-    expect(result.issues).toEqual([{ message: "Expected object" }]);
+    expect(result.issues).toEqual([typeIssue("object", "string")]);
   });
 
   it("should reject objects with invalid properties", () => {
@@ -108,7 +889,246 @@ describe("object()", () => {
     });
     const result = schema.safeParse({ name: "Alice", age: "not a number" });
     expect(result.issues).toEqual([
-      { message: "Expected number", path: ["age"] },
+      typeIssue("number", "string", ["age"]),
+    ]);
+  });
+
+  it("should stop at the first invalid property by default", () => {
+    const schema = object({ name: string(), age: number() });
+    const result = schema.safeParse({});
+    expect(result.issues).toEqual([
+      typeIssue("string", "undefined", ["name"]),
+    ]);
+  });
+
+  it("should collect every nested issue when abortEarly is false", () => {
+    const schema = object({
+      name: string(),
+      address: object({ street: string(), zip: number() }),
+      items: array(object({ qty: number() })),
+    });
+    const result = schema.safeParse(
+      { address: { zip: "x" }, items: [{ qty: 1 }, { qty: "2" }] },
+      { abortEarly: false },
+    );
+    expect(result.issues).toEqual([
+      typeIssue("string", "undefined", ["name"]),
+      typeIssue("string", "undefined", ["address", "street"]),
+      typeIssue("number", "string", ["address", "zip"]),
+      typeIssue("number", "string", ["items", 1, "qty"]),
+    ]);
+  });
+
+  it("should throw every issue from parse when abortEarly is false", () => {
+    const schema = object({ name: string(), age: number() });
+    let error: unknown;
+    try {
+      schema.parse({}, { abortEarly: false });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(SchemaError);
+    expect((error as SchemaError).issues).toHaveLength(2);
+  });
+});
+
+describe("unknown keys", () => {
+  const user = object({ name: string() });
+
+  it("object() should strip unknown keys by default", () => {
+    const result = user.safeParse({ name: "Alice", admin: true });
+    expect(result).toEqual({ value: { name: "Alice" } });
+    expect(user.unknownKeys).toBe("strip");
+  });
+
+  it("strict() should report every unknown key", () => {
+    const schema = strict(user);
+    expect(schema.unknownKeys).toBe("strict");
+    expect(schema.safeParse({ name: "Alice" })).toEqual({
+      value: { name: "Alice" },
+    });
+    expect(
+      schema.safeParse({ name: "Alice", admin: true, role: "x" }, {
+        abortEarly: false,
+      }).issues,
+    ).toEqual([
+      {
+        message: "Unexpected key",
+        code: "unrecognized_key",
+        params: { key: "admin" },
+        path: ["admin"],
+      },
+      {
+        message: "Unexpected key",
+        code: "unrecognized_key",
+        params: { key: "role" },
+        path: ["role"],
+      },
+    ]);
+  });
+
+  it("strict() should accept a custom message and keep the object message", () => {
+    const schema = strict(object({}, "Expected user"), "Not allowed");
+    expect(schema.safeParse(null).issues).toEqual([
+      { ...typeIssue("object", "null"), message: "Expected user" },
+    ]);
+    expect(schema.safeParse({ a: 1 }).issues).toEqual([
+      {
+        message: "Not allowed",
+        code: "unrecognized_key",
+        params: { key: "a" },
+        path: ["a"],
+      },
+    ]);
+  });
+
+  it("passthrough() should copy unknown keys without validation", () => {
+    const schema = passthrough(user);
+    const result = schema.parse({ name: "Alice", admin: true });
+    expect(result).toEqual({ name: "Alice", admin: true });
+    const admin: unknown = result.admin;
+    const name: string = result.name;
+    expect(admin).toBe(true);
+    expect(name).toBe("Alice");
+  });
+
+  it("catchall() should validate unknown keys against a schema", () => {
+    const schema = catchall(object({ id: string() }), number());
+    expect(schema.unknownKeys).toBe("catchall");
+    const result = schema.parse({ id: "a", x: 1, y: 2 });
+    expect(result).toEqual({ id: "a", x: 1, y: 2 });
+    const x: number = result.x;
+    expect(x).toBe(1);
+    expect(schema.safeParse({ id: "a", x: "1" }).issues).toEqual([
+      typeIssue("number", "string", ["x"]),
+    ]);
+  });
+
+  it("should not copy a __proto__ key onto the prototype", () => {
+    const schema = passthrough(user);
+    const input = JSON.parse('{"name":"Alice","__proto__":{"admin":true}}');
+    const result = schema.parse(input);
+    expect(Object.getPrototypeOf(result)).toBe(null);
+    expect((result as { admin?: boolean }).admin).toBeUndefined();
+  });
+});
+
+describe("object composition", () => {
+  const user = object({ id: string(), name: string(), age: number() });
+
+  it("extend() should add and replace keys", () => {
+    const schema = extend(user, { email: string(), age: string() });
+    const value = schema.parse({ id: "1", name: "A", age: "x", email: "e" });
+    const age: string = value.age;
+    const email: string = value.email;
+    expect(age).toBe("x");
+    expect(email).toBe("e");
+    expect(Object.keys(schema.shape)).toEqual(["id", "name", "age", "email"]);
+  });
+
+  it("extend() should keep the unknown key policy", () => {
+    const schema = extend(strict(user), { email: string() });
+    expect(schema.unknownKeys).toBe("strict");
+  });
+
+  it("merge() should combine two object schemas", () => {
+    const schema = merge(user, passthrough(object({ admin: boolean() })));
+    expect(schema.unknownKeys).toBe("passthrough");
+    const value = schema.parse({
+      id: "1",
+      name: "A",
+      age: 1,
+      admin: true,
+      extra: 1,
+    });
+    const admin: boolean = value.admin;
+    expect(admin).toBe(true);
+    expect(value.extra).toBe(1);
+  });
+
+  it("pick() should keep only the given keys", () => {
+    const schema = pick(user, ["id", "name"]);
+    expect(Object.keys(schema.shape)).toEqual(["id", "name"]);
+    expect(schema.parse({ id: "1", name: "A", age: 1 })).toEqual({
+      id: "1",
+      name: "A",
+    });
+  });
+
+  it("omit() should remove the given keys", () => {
+    const createUser = omit(user, ["id"]);
+    expect(Object.keys(createUser.shape)).toEqual(["name", "age"]);
+    const value: { name: string; age: number } = createUser.parse({
+      name: "A",
+      age: 1,
+    });
+    expect(value).toEqual({ name: "A", age: 1 });
+  });
+
+  it("partial() should make every key optional", () => {
+    const patchUser = partial(user);
+    const value: { id?: string; name?: string; age?: number } = patchUser
+      .parse({ name: "B" });
+    expect(value).toEqual({ id: undefined, name: "B", age: undefined });
+    expect(patchUser.safeParse({ age: "1" }).issues).toEqual([
+      typeIssue("number", "string", ["age"]),
+    ]);
+  });
+
+  it("partial() should only be shallow by default", () => {
+    const schema = partial(object({ address: object({ street: string() }) }));
+    expect(schema.safeParse({ address: {} }).issues).toEqual([
+      typeIssue("string", "undefined", ["address", "street"]),
+    ]);
+  });
+
+  it("partial() should recurse into nested object schemas when deep", () => {
+    const schema = partial(
+      object({ address: object({ street: string(), zip: string() }) }),
+      { deep: true },
+    );
+    const value = schema.parse({ address: { street: "Main" } });
+    const street: string | undefined = value.address?.street;
+    expect(street).toBe("Main");
+    expect(schema.parse({})).toEqual({ address: undefined });
+  });
+
+  it("partial() should recurse through maybe() and defaulted() when deep", () => {
+    const schema = partial(
+      object({
+        a: maybe(object({ b: string() })),
+        c: defaulted(object({ d: string() }), { d: "x" }),
+      }),
+      { deep: true },
+    );
+    const value = schema.parse({ a: {}, c: {} });
+    const b: string | undefined = value.a?.b;
+    expect(b).toBeUndefined();
+    expect(value).toEqual({ a: { b: undefined }, c: { d: undefined } });
+    expect(schema.safeParse({ a: { b: 1 } }).issues).toEqual([
+      typeIssue("string", "number", ["a", "b"]),
+    ]);
+  });
+
+  it("required() should reject missing keys", () => {
+    const schema = required(
+      object({ name: maybe(string()), count: defaulted(number(), 0) }),
+    );
+    const value: { name: string; count: number } = schema.parse({
+      name: "A",
+      count: 2,
+    });
+    expect(value).toEqual({ name: "A", count: 2 });
+    expect(schema.safeParse({}, { abortEarly: false }).issues).toEqual([
+      { message: "Required", code: "required", params: {}, path: ["name"] },
+      { message: "Required", code: "required", params: {}, path: ["count"] },
+    ]);
+  });
+
+  it("required() should undo partial()", () => {
+    const schema = required(partial(user));
+    expect(schema.safeParse({ id: "1", name: "A" }).issues).toEqual([
+      { message: "Required", code: "required", params: {}, path: ["age"] },
     ]);
   });
 });
@@ -129,7 +1149,7 @@ describe("maybe()", () => {
   it("should reject invalid non-null/undefined inputs", () => {
     const schema = maybe(number());
     const result = schema.safeParse("not a number");
-    expect(result.issues).toEqual([{ message: "Expected number" }]);
+    expect(result.issues).toEqual([typeIssue("number", "string")]);
   });
 });
 
@@ -149,7 +1169,7 @@ describe("defaulted()", () => {
   it("should reject invalid non-null/undefined inputs", () => {
     const schema = defaulted(number(), 42);
     const result = schema.safeParse("not a number");
-    expect(result.issues).toEqual([{ message: "Expected number" }]);
+    expect(result.issues).toEqual([typeIssue("number", "string")]);
   });
 });
 
@@ -163,7 +1183,11 @@ describe("literal()", () => {
   it("should reject non-matching literal values", () => {
     const schema = literal("test", "Expected literal");
     const result = schema.safeParse("not-test");
-    expect(result.issues).toEqual([{ message: "Expected literal" }]);
+    expect(result.issues).toEqual([{
+      message: "Expected literal",
+      code: "invalid_literal",
+      params: { expected: "test" },
+    }]);
   });
 
   it("should validate matching number literal values", () => {
@@ -175,7 +1199,11 @@ describe("literal()", () => {
   it("should reject non-matching number literal values", () => {
     const schema = literal(42, "Expected literal");
     const result = schema.safeParse(100);
-    expect(result.issues).toEqual([{ message: "Expected literal" }]);
+    expect(result.issues).toEqual([{
+      message: "Expected literal",
+      code: "invalid_literal",
+      params: { expected: 42 },
+    }]);
   });
 
   it("should validate matching boolean literal values", () => {
@@ -187,7 +1215,11 @@ describe("literal()", () => {
   it("should reject non-matching boolean literal values", () => {
     const schema = literal(true, "Expected literal");
     const result = schema.safeParse(false);
-    expect(result.issues).toEqual([{ message: "Expected literal" }]);
+    expect(result.issues).toEqual([{
+      message: "Expected literal",
+      code: "invalid_literal",
+      params: { expected: true },
+    }]);
   });
 
   it("should validate null literal", () => {
@@ -199,6 +1231,881 @@ describe("literal()", () => {
   it("should reject non-null literal", () => {
     const schema = literal(null, "Expected literal");
     const result = schema.safeParse("not-null");
-    expect(result.issues).toEqual([{ message: "Expected literal" }]);
+    expect(result.issues).toEqual([{
+      message: "Expected literal",
+      code: "invalid_literal",
+      params: { expected: null },
+    }]);
+  });
+});
+
+describe("picklist()", () => {
+  const status = picklist(["draft", "published", "archived"]);
+
+  it("should accept the allowed values and infer their union", () => {
+    const value: "draft" | "published" | "archived" = status.parse("draft");
+    expect(value).toBe("draft");
+    expect(status.options).toEqual(["draft", "published", "archived"]);
+  });
+
+  it("should list the allowed values in the issue", () => {
+    expect(status.safeParse("deleted").issues).toEqual([{
+      message: 'Expected one of "draft", "published", "archived"',
+      code: "invalid_option",
+      params: { options: ["draft", "published", "archived"] },
+    }]);
+  });
+});
+
+describe("nativeEnum()", () => {
+  enum Direction {
+    Up,
+    Down,
+  }
+  enum Color {
+    Red = "red",
+    Green = "green",
+  }
+
+  it("should accept the values of numeric enums but not their reverse mappings", () => {
+    const schema = nativeEnum(Direction);
+    const value: Direction = schema.parse(1);
+    expect(value).toBe(Direction.Down);
+    expect(schema.options).toEqual([0, 1]);
+    expect(schema.enum).toBe(Direction);
+    expect(schema.safeParse("Up").issues?.[0].code).toBe("invalid_option");
+  });
+
+  it("should accept the values of string enums and const objects", () => {
+    expect(nativeEnum(Color).parse("red")).toBe(Color.Red);
+    expect(nativeEnum(Color).safeParse("Red").issues?.[0].message).toBe(
+      'Expected one of "red", "green"',
+    );
+    const Size = { Small: "s", Large: "l" } as const;
+    const size: "s" | "l" = nativeEnum(Size).parse("l");
+    expect(size).toBe("l");
+  });
+
+  it("should keep string values that name another member", () => {
+    const schema = nativeEnum({ a: "b", b: 5 });
+    expect(schema.options).toEqual(["b", 5]);
+    expect(schema.parse("b")).toBe("b");
+    expect(schema.parse(5)).toBe(5);
+  });
+});
+
+describe("union()", () => {
+  it("should return the output of the first matching member", () => {
+    const schema = union([string(), number()]);
+    expect(schema.safeParse("hello")).toEqual({ value: "hello" });
+    expect(schema.safeParse(42)).toEqual({ value: 42 });
+  });
+
+  it("should merge the issues of every member when none match", () => {
+    const schema = union([string(), number()]);
+    const result = schema.safeParse(true);
+    expect(result.issues).toEqual([
+      typeIssue("string", "boolean"),
+      typeIssue("number", "boolean"),
+    ]);
+  });
+
+  it("should expose its member schemas", () => {
+    const a = string();
+    const b = number();
+    expect(union([a, b]).options).toEqual([a, b]);
+  });
+});
+
+describe("discriminatedUnion()", () => {
+  const schema = discriminatedUnion("type", [
+    object({ type: literal("card"), last4: string() }),
+    object({ type: literal("bank"), iban: string() }),
+  ]);
+
+  it("should validate against the member selected by the discriminator", () => {
+    const result = schema.safeParse({ type: "bank", iban: "DE89" });
+    expect(result).toEqual({ value: { type: "bank", iban: "DE89" } });
+  });
+
+  it("should report issues from the selected member only", () => {
+    const result = schema.safeParse({ type: "card", last4: 1234 });
+    expect(result.issues).toEqual([
+      typeIssue("string", "number", ["last4"]),
+    ]);
+  });
+
+  it("should point at the discriminator when no member matches", () => {
+    const result = schema.safeParse({ type: "cash" });
+    expect(result.issues).toEqual([
+      {
+        message: "Invalid discriminator",
+        code: "invalid_discriminator",
+        params: { key: "type", options: ["card", "bank"] },
+        path: ["type"],
+      },
+    ]);
+  });
+
+  it("should reject non-object inputs", () => {
+    const result = schema.safeParse("card");
+    expect(result.issues).toEqual([typeIssue("object", "string")]);
+  });
+
+  it("should narrow the inferred output type", () => {
+    const value: InferOutput<typeof schema> = schema.parse({
+      type: "card",
+      last4: "4242",
+    });
+    if (value.type === "card") {
+      const last4: string = value.last4;
+      expect(last4).toBe("4242");
+    }
+  });
+
+  it("should throw when a member does not define a literal discriminator", () => {
+    expect(() =>
+      discriminatedUnion("type", [object({ type: string() })] as never)
+    ).toThrow(TypeError);
+  });
+
+  it("should throw on duplicate discriminator values", () => {
+    expect(() =>
+      discriminatedUnion("type", [
+        object({ type: literal("a") }),
+        object({ type: literal("a") }),
+      ])
+    ).toThrow(TypeError);
+  });
+});
+
+describe("refine()", () => {
+  it("should accept outputs that satisfy the predicate", () => {
+    const schema = number().refine((n) => n > 0);
+    expect(schema.safeParse(1)).toEqual({ value: 1 });
+  });
+
+  it("should report a default message when the predicate fails", () => {
+    const schema = number().refine((n) => n > 0);
+    expect(schema.safeParse(-1).issues).toEqual([
+      customIssue("Invalid value"),
+    ]);
+  });
+
+  it("should report a custom message and path", () => {
+    const schema = object({ start: number(), end: number() }).refine(
+      (range) => range.start < range.end,
+      { message: "End must be after start", path: ["end"] },
+    );
+    expect(schema.safeParse({ start: 2, end: 1 }).issues).toEqual([
+      customIssue("End must be after start", ["end"]),
+    ]);
+  });
+
+  it("should not run the predicate when the base schema fails", () => {
+    let called = false;
+    const schema = number().refine(() => (called = true));
+    expect(schema.safeParse("1").issues).toEqual([
+      typeIssue("number", "string"),
+    ]);
+    expect(called).toBe(false);
+  });
+
+  it("should prefix the path when nested", () => {
+    const schema = object({
+      name: string().refine((s) => s.length > 0, "Required"),
+    });
+    expect(schema.safeParse({ name: "" }).issues).toEqual([
+      customIssue("Required", ["name"]),
+    ]);
+  });
+
+  it("should be chainable", () => {
+    const schema = number()
+      .refine((n) => n > 0, "Too small")
+      .refine((n) => n < 10, "Too big");
+    expect(schema.safeParse(5)).toEqual({ value: 5 });
+    expect(schema.safeParse(0).issues).toEqual([customIssue("Too small")]);
+    expect(schema.safeParse(10).issues).toEqual([customIssue("Too big")]);
+  });
+
+  it("should throw SchemaError from parse", () => {
+    const schema = number().refine((n) => n > 0);
+    expect(() => schema.parse(-1)).toThrow(SchemaError);
+  });
+});
+
+describe("check()", () => {
+  it("should report every issue returned by the function", () => {
+    const schema = object({ password: string(), confirm: string() }).check(
+      (value) => [
+        ...(value.password.length < 8
+          ? [{ message: "Too short", path: ["password"] }]
+          : []),
+        ...(value.password !== value.confirm
+          ? [{ message: "Does not match", path: ["confirm"] }]
+          : []),
+      ],
+    );
+    expect(schema.safeParse({ password: "abc", confirm: "abd" }).issues)
+      .toEqual([
+        { message: "Too short", path: ["password"] },
+        { message: "Does not match", path: ["confirm"] },
+      ]);
+    expect(schema.safeParse({ password: "abcdefgh", confirm: "abcdefgh" }))
+      .toEqual({ value: { password: "abcdefgh", confirm: "abcdefgh" } });
+  });
+
+  it("should accept a single issue", () => {
+    const schema = string().check((s) =>
+      s.includes(" ") ? { message: "No spaces" } : undefined
+    );
+    expect(schema.safeParse("a b").issues).toEqual([{ message: "No spaces" }]);
+    expect(schema.safeParse("ab")).toEqual({ value: "ab" });
+  });
+});
+
+describe("transform()", () => {
+  it("should map the validated output", () => {
+    const schema = string().transform((s) => s.trim().toLowerCase());
+    expect(schema.safeParse("  Hello ")).toEqual({ value: "hello" });
+  });
+
+  it("should change the output type and keep the input type", () => {
+    const schema = string().transform((s) => s.length);
+    const output: InferOutput<typeof schema> = schema.parse("abc");
+    const input: InferInput<typeof schema> = "abc";
+    expect(output).toBe(3);
+    expect(input).toBe("abc");
+  });
+
+  it("should not run when the base schema fails", () => {
+    const schema = string().transform((s) => s.length);
+    expect(schema.safeParse(1).issues).toEqual([typeIssue("string", "number")]);
+  });
+});
+
+describe("pipe()", () => {
+  it("should feed the output of the first schema into the second", () => {
+    const schema = pipe(
+      string().transform((s) => Number(s)),
+      number().refine((n) => n >= 18, "Must be an adult"),
+    );
+    expect(schema.safeParse("21")).toEqual({ value: 21 });
+    expect(schema.safeParse("12").issues).toEqual([
+      customIssue("Must be an adult"),
+    ]);
+    expect(schema.safeParse("abc").issues).toEqual([
+      typeIssue("number", "nan"),
+    ]);
+  });
+
+  it("should stop at the first schema on failure", () => {
+    const schema = pipe(string(), number());
+    expect(schema.safeParse(1).issues).toEqual([typeIssue("string", "number")]);
+  });
+});
+
+describe("intersect()", () => {
+  const named = object({ name: string() });
+  const aged = object({ age: number() }).refine((p) => p.age >= 0);
+
+  it("should merge the outputs of both schemas", () => {
+    const schema = intersect(named, aged);
+    const value: { name: string; age: number } = schema.parse({
+      name: "Ada",
+      age: 36,
+      extra: true,
+    });
+    expect(value).toEqual({ name: "Ada", age: 36 });
+  });
+
+  it("should report the issues of both schemas", () => {
+    const schema = intersect(named, aged);
+    expect(schema.safeParse({ age: "x" }).issues).toEqual([
+      typeIssue("string", "undefined", ["name"]),
+    ]);
+    expect(schema.safeParse({ age: "x" }, { abortEarly: false }).issues)
+      .toEqual([
+        typeIssue("string", "undefined", ["name"]),
+        typeIssue("number", "string", ["age"]),
+      ]);
+  });
+
+  it("should reject outputs that conflict", () => {
+    const schema = intersect(
+      object({ id: string().transform((s) => s.trim()) }),
+      object({ id: string() }),
+    );
+    expect(schema.safeParse({ id: "a" })).toEqual({ value: { id: "a" } });
+    expect(schema.safeParse({ id: " a" }).issues).toEqual([
+      {
+        message: "Conflicting values",
+        code: "invalid_intersection",
+        params: {},
+      },
+    ]);
+  });
+
+  it("should support async schemas", async () => {
+    const slow = object({ age: number() }).refine(() => Promise.resolve(true));
+    expect(await intersect(named, slow).safeParseAsync({ name: "a", age: 1 }))
+      .toEqual({ value: { name: "a", age: 1 } });
+  });
+});
+
+describe("brand()", () => {
+  const userId = brand(string(), "UserId");
+  const orderId = brand(string(), "OrderId");
+
+  it("should validate like the wrapped schema", () => {
+    expect(userId.brand).toBe("UserId");
+    expect(userId.parse("u1")).toBe("u1");
+    expect(userId.safeParse(1).issues).toEqual([typeIssue("string", "number")]);
+  });
+
+  it("should keep brands apart at the type level", () => {
+    const schema = object({ users: array(userId), order: maybe(orderId) });
+    const { users, order } = schema.parse({ users: ["u1"], order: "o1" });
+    const id: InferOutput<typeof userId> = users[0];
+    const raw: string = id;
+    // @ts-expect-error: a UserId is not an OrderId
+    const mixed: InferOutput<typeof orderId> = id;
+    // @ts-expect-error: plain strings are not branded
+    const unbranded: InferOutput<typeof userId> = "u2";
+    expect([raw, mixed, unbranded, order]).toEqual(["u1", "u1", "u2", "o1"]);
+  });
+});
+
+describe("readonly()", () => {
+  it("should deep-freeze the output", () => {
+    const schema = readonly(object({
+      tags: array(string()),
+      meta: object({ created: date() }),
+      lookup: map(string(), object({ n: number() })),
+    }));
+    const created = new Date();
+    const value = schema.parse({
+      tags: ["a"],
+      meta: { created },
+      lookup: new Map([["k", { n: 1 }]]),
+    });
+    expect(Object.isFrozen(value)).toBe(true);
+    expect(Object.isFrozen(value.tags)).toBe(true);
+    expect(Object.isFrozen(value.meta)).toBe(true);
+    expect(Object.isFrozen(value.lookup.get("k"))).toBe(true);
+    expect(Object.isFrozen(value.meta.created)).toBe(false);
+    expect(() => (value.tags as string[]).push("b")).toThrow(TypeError);
+  });
+
+  it("should make the output type readonly", () => {
+    const schema = object({ point: readonly(tuple([number(), number()])) });
+    const { point } = schema.parse({ point: [1, 2] });
+    const first: number = point[0];
+    expect(() => {
+      // @ts-expect-error: readonly
+      point[0] = 2;
+    }).toThrow(TypeError);
+    expect(first).toBe(1);
+  });
+
+  it("should not freeze the input passed through", () => {
+    const schema = readonly(passthrough(object({ data: unknown() })));
+    const data = { list: [1] };
+    const extra = { flag: true };
+    const value = schema.parse({ data, extra });
+    expect(value).toEqual({ data, extra });
+    expect(Object.isFrozen(value.data)).toBe(true);
+    expect(Object.isFrozen((value.data as typeof data).list)).toBe(true);
+    expect(Object.isFrozen(value.extra)).toBe(true);
+    expect(Object.isFrozen(data)).toBe(false);
+    expect(Object.isFrozen(data.list)).toBe(false);
+    expect(Object.isFrozen(extra)).toBe(false);
+  });
+
+  it("should freeze the children of already frozen values", () => {
+    const value = readonly(unknown()).parse(
+      Object.freeze({ child: { n: 1 } }),
+    ) as { child: { n: number } };
+    expect(Object.isFrozen(value.child)).toBe(true);
+  });
+
+  it("should copy circular values once", () => {
+    const input: { self?: unknown } = {};
+    input.self = input;
+    const value = readonly(unknown()).parse(input) as { self: unknown };
+    expect(value.self).toBe(value);
+    expect(Object.isFrozen(value)).toBe(true);
+  });
+});
+
+describe("async validation", () => {
+  const taken = new Set(["alice"]);
+  const username = string().refine(async (name) => {
+    await Promise.resolve();
+    return !taken.has(name);
+  }, "Username is taken");
+
+  it("should run async refinements with safeParseAsync()", async () => {
+    expect(await username.safeParseAsync("bob")).toEqual({ value: "bob" });
+    expect(await username.safeParseAsync("alice")).toEqual({
+      issues: [customIssue("Username is taken")],
+    });
+  });
+
+  it("should throw SchemaError from parseAsync()", async () => {
+    expect(await username.parseAsync("bob")).toBe("bob");
+    await expect(username.parseAsync("alice")).rejects.toThrow(SchemaError);
+  });
+
+  it("should throw when an async schema is parsed synchronously", () => {
+    expect(() => username.safeParse("bob")).toThrow(
+      "Schema contains async validation; use parseAsync() or safeParseAsync() instead",
+    );
+  });
+
+  it("should stay synchronous for sync schemas", () => {
+    const schema = object({ name: string() });
+    expect(schema["~validate"]({ name: "a" })).toEqual({
+      value: { name: "a" },
+    });
+    expect(schema["~standard"].validate({ name: "a" })).toEqual({
+      value: { name: "a" },
+    });
+  });
+
+  it("should return a promise from ~standard.validate for async schemas", async () => {
+    const result = username["~standard"].validate("bob");
+    expect(result).toBeInstanceOf(Promise);
+    expect(await result).toEqual({ value: "bob" });
+  });
+
+  it("should prefix paths inside array() and object()", async () => {
+    const schema = object({
+      owner: username,
+      members: array(object({ name: username })),
+    });
+    const result = await schema.safeParseAsync(
+      { owner: "alice", members: [{ name: "bob" }, { name: "alice" }] },
+      { abortEarly: false },
+    );
+    expect(result.issues).toEqual([
+      customIssue("Username is taken", ["owner"]),
+      customIssue("Username is taken", ["members", 1, "name"]),
+    ]);
+  });
+
+  it("should report the first issue in key order when aborting early", async () => {
+    const schema = object({ owner: username, age: number() });
+    const result = await schema.safeParseAsync({ owner: "alice", age: "x" });
+    expect(result.issues).toEqual([
+      customIssue("Username is taken", ["owner"]),
+    ]);
+  });
+
+  it("should support async transforms and checks", async () => {
+    const schema = string()
+      .transform(async (s) => {
+        await Promise.resolve();
+        return s.length;
+      })
+      .check((n) => n > 3 ? undefined : { message: "Too short" });
+    expect(await schema.safeParseAsync("hello")).toEqual({ value: 5 });
+    expect(await schema.safeParseAsync("hi")).toEqual({
+      issues: [{ message: "Too short" }],
+    });
+  });
+
+  it("should try union members in order", async () => {
+    const schema = union([username, number()]);
+    expect(await schema.safeParseAsync(1)).toEqual({ value: 1 });
+    expect(await schema.safeParseAsync("alice")).toEqual({
+      issues: [customIssue("Username is taken"), typeIssue("number", "string")],
+    });
+  });
+
+  it("should support async schemas in pipe(), maybe() and defaulted()", async () => {
+    expect(await pipe(string(), username).safeParseAsync("bob")).toEqual({
+      value: "bob",
+    });
+    expect(await maybe(username).safeParseAsync(null)).toEqual({
+      value: undefined,
+    });
+    expect(await defaulted(username, "anon").safeParseAsync("alice"))
+      .toEqual({ issues: [customIssue("Username is taken")] });
+  });
+});
+
+describe("lazy", () => {
+  type Comment = { body: string; replies: Comment[]; parent?: Comment };
+  const comment: Schema<Comment> = object({
+    body: string(),
+    replies: array(lazy(() => comment)),
+    parent: maybe(lazy(() => comment)),
+  });
+
+  it("should validate recursive structures", () => {
+    const input = {
+      body: "a",
+      replies: [{ body: "b", replies: [{ body: "c", replies: [] }] }],
+    };
+    expect(comment.parse(input)).toEqual(input);
+    expect(
+      comment.safeParse({ body: "a", replies: [{ body: 1, replies: [] }] }),
+    ).toEqual({
+      issues: [typeIssue("string", "number", ["replies", 0, "body"])],
+    });
+  });
+
+  it("should resolve the schema once, on first use", () => {
+    let calls = 0;
+    const schema = lazy(() => {
+      calls++;
+      return string();
+    });
+    expect(calls).toBe(0);
+    schema.parse("a");
+    schema.parse("b");
+    expect(calls).toBe(1);
+    expect(schema.getter().kind).toBe("string");
+  });
+
+  it("should reject cyclic input", () => {
+    const input: Comment = { body: "a", replies: [] };
+    input.replies.push(input);
+    expect(comment.safeParse(input)).toEqual({
+      issues: [{
+        message: "Circular reference",
+        code: "circular",
+        params: {},
+        path: ["replies", 0, "replies", 0],
+      }],
+    });
+  });
+
+  it("should accept objects shared between siblings", () => {
+    const shared = { body: "b", replies: [] };
+    expect(comment.safeParse({ body: "a", replies: [shared, shared] }).issues)
+      .toBeUndefined();
+  });
+
+  it("should accept objects shared between branches validated concurrently", async () => {
+    type Node = { children: Node[] };
+    const node: Schema<Node> = object({
+      children: array(lazy(() => node)),
+    }).refine(() => Promise.resolve(true));
+    const leaf = { children: [] };
+    const input = { children: [{ children: [leaf, leaf] }] };
+    expect(await node.safeParseAsync(input)).toEqual({ value: input });
+  });
+});
+
+describe("messages", () => {
+  const german = ({ code, params }: MessageContext) => {
+    if ("invalid_type" === code) return `Erwartet: ${params.expected}`;
+    if ("min_length" === code) return `Mindestens ${params.min} Zeichen`;
+  };
+
+  it("should report the received type of invalid inputs", () => {
+    expect(string().safeParse(null).issues?.[0].params).toEqual({
+      expected: "string",
+      received: "null",
+    });
+    expect(object({}).safeParse([]).issues?.[0].params).toEqual({
+      expected: "object",
+      received: "array",
+    });
+  });
+
+  it("should resolve messages with the global resolver", () => {
+    setMessageResolver(german);
+    try {
+      const schema = string(minLength(3), email());
+      expect(schema.safeParse(1).issues).toEqual([{
+        message: "Erwartet: string",
+        code: "invalid_type",
+        params: { expected: "string", received: "number" },
+      }]);
+      expect(schema.safeParse("a").issues?.[0].message).toBe(
+        "Mindestens 3 Zeichen",
+      );
+      expect(schema.safeParse("abc").issues?.[0].message).toBe(
+        "Invalid email",
+      );
+      expect(schema["~standard"].validate(1)).toMatchObject({
+        issues: [{ message: "Erwartet: string" }],
+      });
+    } finally {
+      setMessageResolver(undefined);
+    }
+    expect(string().safeParse(1).issues?.[0].message).toBe("Expected string");
+  });
+
+  it("should prefer the per-call resolver over the global one", () => {
+    setMessageResolver(german);
+    try {
+      const resolveMessage = () => "Falsch";
+      expect(number().safeParse("1", { resolveMessage }).issues?.[0].message)
+        .toBe("Falsch");
+    } finally {
+      setMessageResolver(undefined);
+    }
+  });
+
+  it("should prefer messages passed to constructors over resolvers", () => {
+    const resolveMessage = () => "Falsch";
+    const schema = object({ name: string("Name fehlt", minLength(1, "Leer")) });
+    const options = { resolveMessage, abortEarly: false };
+    expect(schema.safeParse({}, options).issues?.[0].message).toBe(
+      "Name fehlt",
+    );
+    expect(schema.safeParse({ name: "" }, options).issues?.[0].message).toBe(
+      "Leer",
+    );
+  });
+
+  it("should resolve refinements by their code and params", () => {
+    const schema = number().refine((n) => n % 2 === 0, {
+      code: "even",
+      params: { step: 2 },
+    });
+    const resolveMessage = ({ code, input }: MessageContext) =>
+      "even" === code ? `${input} ist ungerade` : undefined;
+    expect(schema.safeParse(3, { resolveMessage }).issues).toEqual([{
+      message: "3 ist ungerade",
+      code: "even",
+      params: { step: 2 },
+    }]);
+    expect(schema.safeParse(3).issues?.[0].message).toBe("Invalid value");
+  });
+});
+
+describe("formatting issues", () => {
+  const schema = object({
+    name: string(),
+    address: object({ street: string() }),
+    items: array(object({ qty: number() })),
+  }).refine(() => false, "Invalid order");
+  const issues = schema.safeParse(
+    { address: {}, items: [{ qty: 1 }, { qty: "2" }] },
+    { abortEarly: false },
+  ).issues!;
+  const ordered = [
+    ...issues,
+    customIssue("Too many items", ["items"]),
+    customIssue("Invalid order"),
+  ];
+
+  it("formatPath() should support dot and form data bracket paths", () => {
+    expect(formatPath(["items", 2, "qty"])).toBe("items[2].qty");
+    expect(formatPath(["items", 2, "qty"], "bracket")).toBe("items[2][qty]");
+    expect(formatPath([{ key: "address" }, { key: "street" }])).toBe(
+      "address.street",
+    );
+    expect(formatPath([0, "name"])).toBe("[0].name");
+    expect(formatPath(undefined)).toBe("");
+  });
+
+  it("flattenIssues() should group messages by field", () => {
+    expect(flattenIssues(ordered)).toEqual({
+      formErrors: ["Invalid order"],
+      fieldErrors: {
+        name: ["Expected string"],
+        "address.street": ["Expected string"],
+        "items[1].qty": ["Expected number"],
+        items: ["Too many items"],
+      },
+    });
+    expect(Object.keys(flattenIssues(ordered, "bracket").fieldErrors))
+      .toEqual(["name", "address[street]", "items[1][qty]", "items"]);
+  });
+
+  it("treeifyIssues() should mirror the shape of the input", () => {
+    const tree = treeifyIssues(ordered);
+    expect(tree.errors).toEqual(["Invalid order"]);
+    expect(tree.properties?.address).toEqual({
+      errors: [],
+      properties: { street: { errors: ["Expected string"] } },
+    });
+    expect(tree.properties?.items?.errors).toEqual(["Too many items"]);
+    expect(tree.properties?.items?.items?.[0]).toBeUndefined();
+    expect(tree.properties?.items?.items?.[1]).toEqual({
+      errors: [],
+      properties: { qty: { errors: ["Expected number"] } },
+    });
+  });
+
+  it("SchemaError should have a readable message", () => {
+    expect(formatIssues(issues)).toBe(
+      [
+        "Validation failed with 3 issues:",
+        "  - name: Expected string",
+        "  - address.street: Expected string",
+        "  - items[1].qty: Expected number",
+      ].join("\n"),
+    );
+    expect(() => string().parse(1)).toThrow(
+      "Validation failed with 1 issue:\n  - Expected string",
+    );
+  });
+});
+
+describe("metadata", () => {
+  it("should be empty by default", () => {
+    expect(string().metadata).toEqual({});
+  });
+
+  it("should be attached to a copy by meta() and describe()", () => {
+    const name = string(minLength(1));
+    const described = name.meta({ title: "Name", examples: ["Ada"] })
+      .describe("The full name");
+    expect(name.metadata).toEqual({});
+    expect(described.metadata).toEqual({
+      title: "Name",
+      description: "The full name",
+      examples: ["Ada"],
+    });
+    expect(described.kind).toBe("string");
+    expect(described.checks).toBe(name.checks);
+    expect(described.safeParse("")).toEqual(name.safeParse(""));
+  });
+
+  it("should keep the messages of object schemas", () => {
+    const schema = object({ a: string() }, "Expected a user").meta({
+      deprecated: true,
+    });
+    expect(schema.shape.a.kind).toBe("string");
+    expect(strict(schema).safeParse(null)).toEqual({
+      issues: [{ ...typeIssue("object", "null"), message: "Expected a user" }],
+    });
+  });
+});
+
+/**
+ * Runs a function with the `__proto__` accessor of Node, Bun and browsers installed on `Object.prototype`, which Deno
+ * disables by default.
+ */
+function withProtoAccessor(fn: () => void): void {
+  const original = Object.getOwnPropertyDescriptor(
+    Object.prototype,
+    "__proto__",
+  );
+  Object.defineProperty(Object.prototype, "__proto__", {
+    configurable: true,
+    get(this: object) {
+      return Object.getPrototypeOf(this);
+    },
+    set(this: object, proto: object | null) {
+      Object.setPrototypeOf(this, proto);
+    },
+  });
+  try {
+    fn();
+  } finally {
+    if (original) {
+      Object.defineProperty(Object.prototype, "__proto__", original);
+    } else Reflect.deleteProperty(Object.prototype, "__proto__");
+  }
+}
+
+describe("Standard Schema children", () => {
+  it("should keep __proto__ keys of the shape", () => {
+    withProtoAccessor(() => {
+      const schema = object({ ["__proto__"]: string(), name: string() });
+      expect(Object.keys(schema.shape)).toEqual(["__proto__", "name"]);
+      const value = schema.parse(JSON.parse('{"__proto__":"a","name":"b"}'));
+      expect(Object.keys(value)).toEqual(["__proto__", "name"]);
+      expect(Object.getOwnPropertyDescriptor(value, "__proto__")?.value)
+        .toBe("a");
+    });
+  });
+
+  // A schema from another library that parses strings of digits to numbers.
+  const digits: StandardSchemaV1<string, number> = {
+    "~standard": {
+      version: 1,
+      vendor: "other",
+      validate: (value) =>
+        "string" === typeof value && /^\d+$/.test(value)
+          ? { value: Number(value) }
+          : {
+            issues: [{ message: "Expected digits", path: [{ key: "raw" }] }],
+          },
+    },
+  };
+
+  const slow: StandardSchemaV1<unknown, string> = {
+    "~standard": {
+      version: 1,
+      vendor: "other",
+      validate: (value) => Promise.resolve({ value: String(value) }),
+    },
+  };
+
+  it("should adapt foreign schemas with fromStandard()", () => {
+    const schema = fromStandard(digits);
+    expect(schema.kind).toBe("standard");
+    expect(schema.standard).toBe(digits);
+    const value: number = schema.parse("42");
+    expect(value).toBe(42);
+    expect(schema.safeParse("4a")).toEqual({
+      issues: [{ message: "Expected digits", path: [{ key: "raw" }] }],
+    });
+  });
+
+  it("should accept callable foreign schemas as the rest of tuples", () => {
+    // Some libraries, such as ArkType, make their schemas callable.
+    const callable = Object.assign((value: unknown) => value, digits);
+    const schema = tuple([string()], callable, "Expected a row");
+    const value: [string, ...number[]] = schema.parse(["a", "1", "2"]);
+    expect(value).toEqual(["a", 1, 2]);
+    expect(schema.safeParse(null).issues?.[0].message).toBe("Expected a row");
+  });
+
+  it("should accept foreign schemas as children", () => {
+    const schema = object({
+      count: digits,
+      ids: array(digits),
+      page: maybe(digits),
+      size: defaulted(digits, 10),
+      range: tuple([digits], digits),
+      scores: record(string(), digits),
+      id: union([literal("latest"), digits]),
+    });
+    const value: InferOutput<typeof schema> = schema.parse({
+      count: "1",
+      ids: ["2", "3"],
+      range: ["4", "5"],
+      scores: { a: "6" },
+      id: "7",
+    });
+    const typed: {
+      count: number;
+      page?: number;
+      range: [number, ...number[]];
+    } = value;
+    expect(typed).toEqual({
+      count: 1,
+      ids: [2, 3],
+      page: undefined,
+      size: 10,
+      range: [4, 5],
+      scores: { a: 6 },
+      id: 7,
+    });
+    expect(schema.safeParse({ count: "1", ids: ["x"] })).toEqual({
+      issues: [{
+        message: "Expected digits",
+        path: ["ids", 0, { key: "raw" }],
+      }],
+    });
+  });
+
+  it("should require parseAsync() for async foreign schemas", async () => {
+    const schema = object({ name: slow });
+    expect(() => schema.parse({ name: 1 })).toThrow(
+      "Schema contains async validation; use parseAsync() or safeParseAsync() instead",
+    );
+    expect(await schema.parseAsync({ name: 1 })).toEqual({ name: "1" });
   });
 });
@@ -17,24 +17,143 @@ export function isObject(input: unknown): input is { [key: string]: unknown } {
  * Represents the result of a schema validation.
  * @template T - The type of the value if validation is successful.
  */
-export type Result<T> = StandardSchemaV1.Result<T>;
+export type Result<T> = StandardSchemaV1.SuccessResult<T> | FailureResult;
+
+/**
+ * Represents the result of a failed schema validation.
+ */
+export interface FailureResult {
+  /**
+   * The issues encountered during validation.
+   */
+  readonly issues: readonly Issue[];
+}
 
 /**
  * Represents an issue encountered during schema validation.
+ * Extends the Standard Schema issue with a machine-readable code and the parameters of the failed constraint. Issues
+ * reported by the built-in schemas and checks always carry both; issues returned from `check()` may omit them.
  */
-export type Issue = StandardSchemaV1.Issue;
+export interface Issue extends StandardSchemaV1.Issue {
+  /**
+   * A machine-readable code identifying the failed constraint (e.g. `"invalid_type"` or `"min_length"`).
+   */
+  readonly code?: string;
+
+  /**
+   * The parameters of the failed constraint (e.g. `{ min: 3 }` or `{ expected: "string", received: "number" }`).
+   */
+  readonly params?: { readonly [key: string]: unknown };
+}
 
 /**
  * Infers the input type of a schema.
  * @template T - The schema type.
  */
-export type InferInput<T extends Schema> = StandardSchemaV1.InferInput<T>;
+export type InferInput<T extends StandardSchemaV1> =
+  StandardSchemaV1.InferInput<
+    T
+  >;
 
 /**
  * Infers the output type of a schema.
  * @template T - The schema type.
  */
-export type InferOutput<T extends Schema> = StandardSchemaV1.InferOutput<T>;
+export type InferOutput<T extends StandardSchemaV1> =
+  StandardSchemaV1.InferOutput<T>;
+
+/**
+ * Options that control how a schema walks its input.
+ */
+export interface ParseOptions {
+  /**
+   * Whether to stop at the first issue. Set to `false` to walk the whole input
+   * and report every issue, each with its full path.
+   * @default true
+   */
+  readonly abortEarly?: boolean;
+
+  /**
+   * Resolves the messages of the issues reported during this parse, taking precedence over the resolver set with
+   * `setMessageResolver()`.
+   */
+  readonly resolveMessage?: MessageResolver;
+}
+
+/**
+ * The information a `MessageResolver` receives about a failed constraint.
+ */
+export interface MessageContext {
+  /**
+   * The machine-readable code of the failed constraint (e.g. `"invalid_type"`).
+   */
+  readonly code: string;
+
+  /**
+   * The parameters of the failed constraint (e.g. `{ expected: "string", received: "number" }`).
+   */
+  readonly params: { readonly [key: string]: unknown };
+
+  /**
+   * The value that failed the constraint.
+   */
+  readonly input: unknown;
+}
+
+/**
+ * Turns a failed constraint into a (localized) message. Return `undefined` to fall back to the next resolver, and
+ * eventually to the built-in English message.
+ */
+export type MessageResolver = (context: MessageContext) => string | undefined;
+
+/**
+ * The resolver set with `setMessageResolver()`.
+ */
+let globalMessageResolver: MessageResolver | undefined;
+
+/**
+ * Sets the message resolver used by every parse that does not pass its own `resolveMessage` option.
+ * Messages passed explicitly to a schema or check constructor always take precedence over resolvers.
+ * @param resolver - The resolver to use, or `undefined` to restore the built-in English messages.
+ */
+export function setMessageResolver(
+  resolver: MessageResolver | undefined,
+): void {
+  globalMessageResolver = resolver;
+}
+
+/**
+ * Represents a value that may or may not be wrapped in a promise.
+ * @template T - The type of the value.
+ */
+export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Descriptive information attached to a schema with `meta()` or `describe()`. It does not affect validation, but is
+ * picked up by tools such as `toJsonSchema()` and `inspect()`.
+ * @template T - The type of the examples.
+ */
+export interface SchemaMetadata<T = unknown> {
+  /**
+   * A short title.
+   */
+  readonly title?: string;
+
+  /**
+   * A description of the value.
+   */
+  readonly description?: string;
+
+  /**
+   * Example values.
+   */
+  readonly examples?: readonly T[];
+
+  /**
+   * Whether the value is deprecated.
+   */
+  readonly deprecated?: boolean;
+}
 
 /**
  * Defines a schema for validating and transforming input data.
@@ -43,20 +162,203 @@ export type InferOutput<T extends Schema> = StandardSchemaV1.InferOutput<T>;
  */
 export interface Schema<TOutput = unknown, TInput = unknown>
   extends StandardSchemaV1<TInput, TOutput> {
+  /**
+   * The kind of schema. Together with the kind-specific properties (e.g. `shape`, `item` or `wrapped`), it lets tools
+   * such as `toJsonSchema()` walk a schema tree.
+   */
+  readonly kind: SchemaKind;
+
+  /**
+   * The metadata attached with `meta()` or `describe()`.
+   */
+  readonly metadata: SchemaMetadata<TOutput>;
+
   /**
    * Parses the input data and returns the validated output.
    * @param input - The input data to be validated.
+   * @param options - Options that control how the input is walked.
    * @returns The validated output.
    * @throws {SchemaError} If the input data is invalid.
+   * @throws {Error} If the schema reaches an async refinement or transform; use `parseAsync()` instead.
    */
-  parse(input: TInput): TOutput;
+  parse(input: TInput, options?: ParseOptions): TOutput;
 
   /**
    * Safely parses the input data and returns a result object.
    * @param input - The input data to be validated.
+   * @param options - Options that control how the input is walked.
    * @returns A result object containing either the validated output or a list of issues.
+   * @throws {Error} If the schema reaches an async refinement or transform; use `safeParseAsync()` instead.
+   */
+  safeParse(input: TInput, options?: ParseOptions): Result<TOutput>;
+
+  /**
+   * Parses the input data, awaiting any async refinements and transforms, and returns the validated output.
+   * @param input - The input data to be validated.
+   * @param options - Options that control how the input is walked.
+   * @returns A promise that resolves to the validated output.
+   * @throws {SchemaError} If the input data is invalid.
+   */
+  parseAsync(input: TInput, options?: ParseOptions): Promise<TOutput>;
+
+  /**
+   * Safely parses the input data, awaiting any async refinements and transforms, and returns a result object.
+   * @param input - The input data to be validated.
+   * @param options - Options that control how the input is walked.
+   * @returns A promise that resolves to a result object containing either the validated output or a list of issues.
+   */
+  safeParseAsync(
+    input: TInput,
+    options?: ParseOptions,
+  ): Promise<Result<TOutput>>;
+
+  /**
+   * Validates the input and returns a result, which is only wrapped in a promise if an async refinement or transform
+   * was reached. Combinators use this to validate their children so that sync schemas stay sync; prefer `safeParse()`
+   * or `safeParseAsync()` in application code.
+   * @param input - The input data to be validated.
+   * @param options - Options that control how the input is walked.
+   * @returns A result object, or a promise that resolves to one.
+   */
+  "~validate"(
+    input: unknown,
+    options?: ParseOptions,
+  ): MaybePromise<Result<TOutput>>;
+
+  /**
+   * Returns a new schema that additionally requires the output to satisfy the given predicate.
+   * The predicate may be async, in which case the schema must be parsed with `parseAsync()` or `safeParseAsync()`.
+   * @param predicate - A function that returns `true` if the output is valid.
+   * @param options - The error message, or an object with the message, code, params and the path to report the issue at.
+   * @returns A new schema with the refinement applied.
+   */
+  refine(
+    predicate: (value: TOutput) => MaybePromise<boolean>,
+    options?: string | RefineOptions,
+  ): WrapperSchema<Schema<TOutput, TInput>, TOutput, TInput>;
+
+  /**
+   * Returns a new schema that runs the given function on the output and fails with the issues it returns.
+   * Use this over `refine()` when a single check may report several issues. The function may be async.
+   * @param fn - A function that returns an issue, a list of issues, or nothing if the output is valid.
+   * @returns A new schema with the check applied.
+   */
+  check(
+    fn: (value: TOutput) => MaybePromise<CheckResult>,
+  ): WrapperSchema<Schema<TOutput, TInput>, TOutput, TInput>;
+
+  /**
+   * Returns a new schema that maps the output to a new value once validation succeeds.
+   * The function may be async.
+   * @template U - The type of the transformed output.
+   * @param fn - A function that maps the validated output to a new value.
+   * @returns A new schema with the same input type and the transformed output type.
+   */
+  transform<U>(
+    fn: (value: TOutput) => MaybePromise<U>,
+  ): WrapperSchema<Schema<TOutput, TInput>, U, TInput>;
+
+  /**
+   * Returns a copy of the schema with the given metadata merged into its current metadata.
+   * @param metadata - The metadata to attach.
+   * @returns A new schema of the same kind that validates like this one.
+   */
+  meta(metadata: SchemaMetadata<TOutput>): this;
+
+  /**
+   * Returns a copy of the schema with the given description.
+   * @param description - The description of the value.
+   * @returns A new schema of the same kind that validates like this one.
+   */
+  describe(description: string): this;
+}
+
+/**
+ * The kinds of schemas built into `@razr/schema`.
+ */
+export type SchemaKind =
+  | "unknown"
+  | "never"
+  | "string"
+  | "number"
+  | "int"
+  | "bigint"
+  | "boolean"
+  | "date"
+  | "literal"
+  | "array"
+  | "object"
+  | "maybe"
+  | "defaulted"
+  | "required"
+  | "union"
+  | "discriminated_union"
+  | "refine"
+  | "transform"
+  | "coerce"
+  | "pipe"
+  | "lazy"
+  | "instant"
+  | "duration"
+  | "picklist"
+  | "native_enum"
+  | "tuple"
+  | "record"
+  | "map"
+  | "set"
+  | "blob"
+  | "file"
+  | "intersection"
+  | "brand"
+  | "readonly"
+  | "standard";
+
+/**
+ * Represents a schema that wraps another schema, such as `maybe()`, `coerce.number()` or the result of `refine()`.
+ * @template T - The wrapped schema type.
+ * @template TOutput - The type of the output after successful validation.
+ * @template TInput - The type of the input data.
+ */
+export interface WrapperSchema<
+  T extends Schema,
+  TOutput = InferOutput<T>,
+  TInput = unknown,
+> extends Schema<TOutput, TInput> {
+  /**
+   * The wrapped schema.
+   */
+  readonly wrapped: T;
+}
+
+/**
+ * The value returned by a function passed to `check()`: an issue, a list of issues, or nothing if the value is valid.
+ */
+export type CheckResult = Issue | readonly Issue[] | undefined | void;
+
+/**
+ * Options for reporting a failed refinement.
+ */
+export interface RefineOptions {
+  /**
+   * The error message to report. If omitted, the message is resolved from `code` and `params`.
+   */
+  readonly message?: string;
+
+  /**
+   * The code to report.
+   * @default "custom"
+   */
+  readonly code?: string;
+
+  /**
+   * The parameters to report.
+   */
+  readonly params?: { readonly [key: string]: unknown };
+
+  /**
+   * The path to report the issue at, relative to the refined value.
    */
-  safeParse(input: TInput): Result<TOutput>;
+  readonly path?: readonly PropertyKey[];
 }
 
 /**
@@ -68,43 +370,365 @@ export class SchemaError extends Error {
    * @param issues - A list of issues encountered during validation.
    */
   constructor(readonly issues: readonly Issue[]) {
-    super();
+    super(formatIssues(issues));
+  }
+}
+
+/**
+ * How `formatPath()` joins the segments of an issue path:
+ *
+ * - `"dot"`: JavaScript property access, e.g. `address.street` and `items[2].qty`.
+ * - `"bracket"`: The bracket syntax of `@razr/formdata`, e.g. `address[street]` and `items[2][qty]`.
+ */
+export type PathStyle = "dot" | "bracket";
+
+/**
+ * Formats the path of an issue as a field name.
+ * @param path - The path of the issue. Standard Schema path segments (`{ key }`) are accepted as well.
+ * @param style - How to join the segments.
+ * @returns The field name, or an empty string if the path is empty.
+ */
+export function formatPath(
+  path: StandardSchemaV1.Issue["path"],
+  style: PathStyle = "dot",
+): string {
+  let name = "";
+  for (const segment of path ?? []) {
+    const key = "object" === typeof segment ? segment.key : segment;
+    if (!name && ("bracket" === style || "number" !== typeof key)) {
+      name = String(key);
+    } else if ("bracket" === style || "number" === typeof key) {
+      name += `[${String(key)}]`;
+    } else {
+      name += `.${String(key)}`;
+    }
+  }
+  return name;
+}
+
+/**
+ * Formats a list of issues as a readable multi-line message, one issue per line prefixed with its path.
+ * @param issues - The issues to format.
+ * @returns The formatted message.
+ */
+export function formatIssues(
+  issues: readonly StandardSchemaV1.Issue[],
+): string {
+  const lines = issues.map((issue) => {
+    const path = formatPath(issue.path);
+    return path ? `  - ${path}: ${issue.message}` : `  - ${issue.message}`;
+  });
+  const count = 1 === issues.length ? "1 issue" : `${issues.length} issues`;
+  return [`Validation failed with ${count}:`, ...lines].join("\n");
+}
+
+/**
+ * Represents a list of issues grouped by the field they belong to.
+ */
+export interface FlattenedIssues {
+  /**
+   * The messages of the issues without a path, i.e. those about the input as a whole.
+   */
+  readonly formErrors: string[];
+
+  /**
+   * The messages of the issues with a path, keyed by the path formatted with `formatPath()`.
+   */
+  readonly fieldErrors: { [path: string]: string[] };
+}
+
+/**
+ * Groups a list of issues by the field they belong to, for displaying them next to form fields.
+ * @param issues - The issues to group.
+ * @param style - How to format the field names. Use `"bracket"` for forms encoded with `@razr/formdata`.
+ * @returns The messages of the issues, grouped by field.
+ */
+export function flattenIssues(
+  issues: readonly StandardSchemaV1.Issue[],
+  style: PathStyle = "dot",
+): FlattenedIssues {
+  const formErrors: string[] = [];
+  const fieldErrors: { [path: string]: string[] } = Object.create(null);
+  for (const issue of issues) {
+    const path = formatPath(issue.path, style);
+    if (path) (fieldErrors[path] ??= []).push(issue.message);
+    else formErrors.push(issue.message);
+  }
+  return { formErrors, fieldErrors };
+}
+
+/**
+ * Represents the issues of a value and of its properties or items, mirroring the shape of the input.
+ */
+export interface IssueTree {
+  /**
+   * The messages of the issues about the value itself.
+   */
+  errors: string[];
+
+  /**
+   * The issue trees of the object properties that have issues.
+   */
+  properties?: { [key: string]: IssueTree };
+
+  /**
+   * The issue trees of the array items that have issues, at their index.
+   */
+  items?: (IssueTree | undefined)[];
+}
+
+/**
+ * Arranges a list of issues in a tree mirroring the shape of the input.
+ * @param issues - The issues to arrange.
+ * @returns The root of the tree.
+ */
+export function treeifyIssues(
+  issues: readonly StandardSchemaV1.Issue[],
+): IssueTree {
+  const root: IssueTree = { errors: [] };
+  for (const issue of issues) {
+    let node = root;
+    for (const segment of issue.path ?? []) {
+      const key = "object" === typeof segment ? segment.key : segment;
+      if ("number" === typeof key) {
+        node = (node.items ??= [])[key] ??= { errors: [] };
+      } else {
+        const properties = node.properties ??= Object.create(null) as {
+          [key: string]: IssueTree;
+        };
+        node = properties[String(key)] ??= { errors: [] };
+      }
+    }
+    node.errors.push(issue.message);
+  }
+  return root;
+}
+
+/**
+ * Applies a function to a value that may be a promise, staying synchronous if it is not.
+ * @template T - The type of the value.
+ * @template U - The type returned by the function.
+ * @param value - The value, or a promise that resolves to it.
+ * @param fn - The function to apply.
+ * @returns The result of the function, or a promise that resolves to it.
+ */
+function then<T, U>(
+  value: MaybePromise<T>,
+  fn: (value: T) => MaybePromise<U>,
+): MaybePromise<U> {
+  return value instanceof Promise ? value.then(fn) : fn(value);
+}
+
+/**
+ * Unwraps a synchronous result, failing if an async refinement or transform was reached.
+ * @template T - The type of the output.
+ * @param result - The result returned by `~validate`.
+ * @returns The result.
+ * @throws {Error} If the result is a promise.
+ */
+function expectSync<T>(result: MaybePromise<Result<T>>): Result<T> {
+  if (result instanceof Promise) {
+    result.catch(() => {}); // The caller can no longer observe this promise.
+    throw new Error(
+      "Schema contains async validation; use parseAsync() or safeParseAsync() instead",
+    );
   }
+  return result;
 }
 
 /**
- * Creates a new schema with the given safeParse function.
+ * Creates a new schema with the given validate function.
  * @template TOutput - The type of the output after successful validation.
  * @template TInput - The type of the input data.
- * @param safeParse - A function that safely parses the input data.
+ * @template TProps - The kind-specific properties of the schema.
+ * @param kind - The kind of schema.
+ * @param validate - A function that validates the input data, returning a promise only if it reached async work.
+ * @param props - The kind-specific properties of the schema (e.g. `shape` or `wrapped`).
  * @returns A new schema instance.
  */
-function createSchema<TOutput = unknown, TInput = unknown>(
-  safeParse: (input: TInput) => Result<TOutput>,
-): Schema<TOutput, TInput> {
+function createSchema<
+  TOutput = unknown,
+  TInput = unknown,
+  TProps extends object = Record<never, never>,
+>(
+  kind: SchemaKind,
+  validate: (
+    input: unknown,
+    options?: ParseOptions,
+  ) => MaybePromise<Result<TOutput>>,
+  props?: TProps,
+  metadata: SchemaMetadata<TOutput> = {},
+): Schema<TOutput, TInput> & TProps {
+  const safeParse = (input: TInput, options?: ParseOptions) => {
+    return expectSync(validate(input, options));
+  };
+
   /**
    * Parses the input data and returns the validated output.
    * @param input - The input data to be validated.
+   * @param options - Options that control how the input is walked.
    * @returns The validated output.
    * @throws {SchemaError} If the input data is invalid.
    */
-  const parse = (input: TInput): TOutput => {
-    const result = safeParse(input);
+  const parse = (input: TInput, options?: ParseOptions): TOutput => {
+    const result = safeParse(input, options);
     if (result.issues) {
       throw new SchemaError(result.issues);
     }
     return result.value;
   };
 
-  return {
+  const safeParseAsync = async (input: TInput, options?: ParseOptions) => {
+    return await validate(input, options);
+  };
+
+  const parseAsync = async (
+    input: TInput,
+    options?: ParseOptions,
+  ): Promise<TOutput> => {
+    const result = await validate(input, options);
+    if (result.issues) {
+      throw new SchemaError(result.issues);
+    }
+    return result.value;
+  };
+
+  const refine = (
+    predicate: (value: TOutput) => MaybePromise<boolean>,
+    options: string | RefineOptions = {},
+  ): WrapperSchema<Schema<TOutput, TInput>, TOutput, TInput> => {
+    const { message, code = "custom", params = {}, path } =
+      "string" === typeof options ? { message: options } : options;
+    return check((value, parseOptions) =>
+      then(predicate(value), (ok) => {
+        if (ok) return undefined;
+        const issue = createIssue(code, params, value, parseOptions, message);
+        return path ? { ...issue, path } : issue;
+      })
+    );
+  };
+
+  const check = (
+    fn: (
+      value: TOutput,
+      options: ParseOptions | undefined,
+    ) => MaybePromise<CheckResult>,
+  ): WrapperSchema<Schema<TOutput, TInput>, TOutput, TInput> => {
+    return createSchema<TOutput, TInput, { wrapped: Schema<TOutput, TInput> }>(
+      "refine",
+      (input, options) => {
+        return then(validate(input, options), (result) => {
+          if (result.issues) return result;
+          return then(fn(result.value, options), (issues): Result<TOutput> => {
+            if (!issues) return result;
+            if (!Array.isArray(issues)) return { issues: [issues as Issue] };
+            return issues.length ? { issues } : result;
+          });
+        });
+      },
+      { wrapped: schema },
+    );
+  };
+
+  const transform = <U>(
+    fn: (value: TOutput) => MaybePromise<U>,
+  ): WrapperSchema<Schema<TOutput, TInput>, U, TInput> => {
+    return createSchema<U, TInput, { wrapped: Schema<TOutput, TInput> }>(
+      "transform",
+      (input, options) => {
+        return then(validate(input, options), (result) => {
+          if (result.issues) return result;
+          return then(fn(result.value), (value) => ({ value }));
+        });
+      },
+      { wrapped: schema },
+    );
+  };
+
+  const meta = (extra: SchemaMetadata<TOutput>) => {
+    const copy = createSchema<TOutput, TInput, TProps>(kind, validate, props, {
+      ...metadata,
+      ...extra,
+    });
+    // Copies of object schemas keep the messages their derived schemas inherit.
+    const messages = objectMessages.get(schema);
+    if (messages) objectMessages.set(copy, messages);
+    return copy;
+  };
+
+  const schema: Schema<TOutput, TInput> & TProps = {
+    kind,
+    ...props as TProps,
+    metadata,
     parse,
     safeParse,
+    parseAsync,
+    safeParseAsync,
+    "~validate": validate,
+    refine,
+    check,
+    transform,
+    meta,
+    describe: (description) => meta({ description }),
     "~standard": {
-      validate: (value) => safeParse(value as TInput),
+      validate: (value) => validate(value),
       vendor: "razr",
       version: 1,
     },
   };
+  return schema;
+}
+
+/**
+ * Validates the entries of a collection and combines their results, prefixing each issue with the key of its entry.
+ * Entries are validated in order and the combined result is only wrapped in a promise if one of them was async.
+ * In fail-fast mode, validation stops at the first synchronous failure that is not preceded by pending async entries.
+ * @template T - The type of the output.
+ * @param count - The number of entries.
+ * @param keyAt - Returns the key of the entry at the given index.
+ * @param validateAt - Validates the entry at the given index.
+ * @param options - The options passed to `safeParse`.
+ * @param build - Builds the output from the values of the entries once all of them succeeded.
+ * @returns The combined result, or a promise that resolves to it.
+ */
+function validateEntries<T>(
+  count: number,
+  keyAt: (index: number) => PropertyKey,
+  validateAt: (index: number) => MaybePromise<Result<unknown>>,
+  options: ParseOptions | undefined,
+  build: (values: unknown[]) => Result<T>,
+): MaybePromise<Result<T>> {
+  const results = new Array<MaybePromise<Result<unknown>>>(count);
+  let pending = false;
+  for (let i = 0; i < count; i++) {
+    const result = validateAt(i);
+    if (result instanceof Promise) {
+      pending = true;
+    } else if (result.issues && !pending && shouldAbort(options)) {
+      return { issues: prependKeyToIssues(keyAt(i), result.issues) };
+    }
+    results[i] = result;
+  }
+
+  const combine = (settled: readonly Result<unknown>[]): Result<T> => {
+    const values = new Array<unknown>(count);
+    let issues: Issue[] | undefined;
+    for (let i = 0; i < count; i++) {
+      const result = settled[i];
+      if (result.issues) {
+        const prefixed = prependKeyToIssues(keyAt(i), result.issues);
+        if (shouldAbort(options)) return { issues: prefixed };
+        (issues ??= []).push(...prefixed);
+        continue;
+      }
+      values[i] = result.value;
+    }
+    if (issues) return { issues };
+    return build(values);
+  };
+
+  if (pending) return Promise.all(results).then(combine);
+  return combine(results as Result<unknown>[]);
 }
 
 /**
@@ -124,117 +748,2127 @@ function prependKeyToIssues(
 }
 
 /**
- * Creates a schema that validates if the input is a string.
- * @param message - The error message to return if validation fails.
- * @returns A schema that validates string inputs.
+ * Checks whether parsing should stop at the first issue.
+ * @param options - The options passed to `safeParse`.
+ * @returns True unless `abortEarly` was explicitly set to `false`.
  */
-export function string(message = "Expected string"): Schema<string> {
-  return createSchema<string>((value) => {
-    if ("string" === typeof value) return { value };
-    return { issues: [{ message }] };
-  });
+function shouldAbort(options: ParseOptions | undefined): boolean {
+  return options?.abortEarly !== false;
 }
 
 /**
- * Creates a schema that validates if the input is a number.
- * @param message - The error message to return if validation fails.
- * @returns A schema that validates number inputs.
+ * The built-in English messages, keyed by issue code.
  */
-export function number(message = "Expected number"): Schema<number> {
-  return createSchema<number>((value) => {
-    if ("number" === typeof value && Number.isFinite(value)) return { value };
-    return { issues: [{ message }] };
-  });
-}
+const ENGLISH_MESSAGES: {
+  readonly [code: string]: (
+    params: { readonly [key: string]: unknown },
+  ) => string;
+} = {
+  invalid_type: ({ expected }) => `Expected ${expected}`,
+  invalid_literal: () => "Expected literal value",
+  invalid_option: ({ options }) =>
+    `Expected one of ${
+      (options as readonly unknown[]).map((option) => JSON.stringify(option))
+        .join(", ")
+    }`,
+  invalid_discriminator: () => "Invalid discriminator",
+  invalid_intersection: () => "Conflicting values",
+  unrecognized_key: () => "Unexpected key",
+  required: () => "Required",
+  circular: () => "Circular reference",
+  custom: () => "Invalid value",
+  min_length: ({ min }) => `Expected at least ${min} characters`,
+  max_length: ({ max }) => `Expected at most ${max} characters`,
+  length: ({ length }) => `Expected exactly ${length} characters`,
+  regex: () => "Invalid format",
+  email: () => "Invalid email",
+  url: () => "Invalid URL",
+  uuid: ({ version }) => version ? `Invalid UUID v${version}` : "Invalid UUID",
+  iso_date: () => "Invalid ISO date",
+  iso_time: () => "Invalid ISO time",
+  iso_datetime: () => "Invalid ISO date-time",
+  iso_duration: () => "Invalid ISO duration",
+  min: ({ min, exclusive }) =>
+    exclusive
+      ? `Expected a value greater than ${formatBound(min)}`
+      : `Expected a value greater than or equal to ${formatBound(min)}`,
+  max: ({ max, exclusive }) =>
+    exclusive
+      ? `Expected a value less than ${formatBound(max)}`
+      : `Expected a value less than or equal to ${formatBound(max)}`,
+  positive: () => "Expected a positive number",
+  negative: () => "Expected a negative number",
+  multiple_of: ({ step }) => `Expected a multiple of ${step}`,
+  safe_integer: () => "Expected a safe integer",
+  max_items: ({ max }) =>
+    `Expected at most ${max} ${1 === max ? "item" : "items"}`,
+  min_size: ({ min }) => `Expected at least ${min} bytes`,
+  max_size: ({ max }) => `Expected at most ${max} bytes`,
+  mime_type: ({ types }) =>
+    `Expected a type of ${(types as readonly string[]).join(", ")}`,
+  extension: ({ extensions }) =>
+    `Expected an extension of ${(extensions as readonly string[]).join(", ")}`,
+  file_name: () => "Invalid file name",
+  magic_bytes: () => "Content does not match the declared type",
+};
 
 /**
- * Creates a schema that validates if the input is a boolean.
- * @param message - The error message to return if validation fails.
- * @returns A schema that validates boolean inputs.
+ * Formats the bound of a `min` or `max` issue for an English message.
+ * @param bound - The bound, a number, bigint or date.
+ * @returns The bound, with dates in ISO-8601 format.
  */
-export function boolean(message = "Expected boolean"): Schema<boolean> {
-  return createSchema<boolean>((value) => {
-    if ("boolean" === typeof value) return { value };
-    return { issues: [{ message }] };
-  });
+function formatBound(bound: unknown): string {
+  return bound instanceof Date ? bound.toISOString() : String(bound);
 }
 
 /**
- * Creates a schema that validates if the input is an array and validates each element using the provided schema.
- * @template T - The schema type for validating array elements.
- * @param schema - The schema used to validate each element of the array.
- * @param message - The error message to return if validation fails.
- * @returns A schema that validates array inputs.
+ * Describes the type of a value for the `received` parameter of `invalid_type` issues.
+ * @param input - The value to describe.
+ * @returns `"null"`, `"nan"`, `"array"`, `"date"`, `"file"`, `"blob"`, or the result of `typeof`.
  */
-export function array<T extends Schema>(
-  schema: T,
-  message = "Expected array",
-): Schema<InferOutput<T>[]> {
-  return createSchema<InferOutput<T>[]>((input) => {
-    if (!Array.isArray(input)) return { issues: [{ message }] };
-    const len = input.length;
-    const value = new Array(len) as InferOutput<T>[];
-    for (let i = 0; i < len; i++) {
-      const result = schema.safeParse(input[i]);
-      if (result.issues) {
-        return { issues: prependKeyToIssues(i, result.issues) };
-      }
-      value[i] = result.value;
-    }
-    return { value };
-  });
+function typeOf(input: unknown): string {
+  if (null === input) return "null";
+  if (Number.isNaN(input)) return "nan";
+  if (Array.isArray(input)) return "array";
+  if (input instanceof Date) return "date";
+  if (input instanceof File) return "file";
+  if (input instanceof Blob) return "blob";
+  return typeof input;
 }
 
 /**
- * Represents a raw object shape where keys are property keys and values are unknown.
+ * Creates an issue, resolving its message unless one was given explicitly.
+ * Messages are resolved by the `resolveMessage` option, then the global resolver, then the built-in English messages.
+ * @param code - The machine-readable code of the failed constraint.
+ * @param params - The parameters of the failed constraint.
+ * @param input - The value that failed the constraint.
+ * @param options - The options passed to `safeParse`.
+ * @param message - The message passed to the schema or check constructor, if any.
+ * @returns The issue.
  */
-type RawShape = { [key: PropertyKey]: unknown };
+function createIssue(
+  code: string,
+  params: { readonly [key: string]: unknown },
+  input: unknown,
+  options: ParseOptions | undefined,
+  message?: string,
+): Issue {
+  if (undefined === message) {
+    const context: MessageContext = { code, params, input };
+    message = options?.resolveMessage?.(context) ??
+      globalMessageResolver?.(context) ??
+      ENGLISH_MESSAGES[code]?.(params) ??
+      "Invalid value";
+  }
+  return { message, code, params };
+}
 
 /**
- * Represents an object shape where each key is mapped to a schema.
- * @template T - The raw object shape.
+ * Creates an `invalid_type` issue.
+ * @param expected - The name of the expected type.
+ * @param input - The value of the wrong type.
+ * @param options - The options passed to `safeParse`.
+ * @param message - The message passed to the schema constructor, if any.
+ * @returns A failed result with the issue.
  */
-type ObjectShape<T extends RawShape> = { [K in keyof T]: Schema<T[K]> };
+function invalidType(
+  expected: string,
+  input: unknown,
+  options: ParseOptions | undefined,
+  message?: string,
+): FailureResult {
+  const params = { expected, received: typeOf(input) };
+  return {
+    issues: [createIssue("invalid_type", params, input, options, message)],
+  };
+}
 
 /**
- * Represents a schema for validating and transforming objects.
- * @template TOutput - The type of the output object after successful validation.
- * @template TInput - The type of the input data.
+ * Represents a reusable constraint that can be passed to a schema constructor such as `string()`.
+ * @template T - The type of the value the constraint applies to.
  */
-export interface ObjectSchema<TOutput extends RawShape, TInput = unknown>
-  extends Schema<TOutput, TInput> {
+export interface Check<T> {
   /**
-   * The shape of the object, where each key is mapped to a schema.
+   * A machine-readable code reported on the issue when the constraint fails.
    */
-  shape: ObjectShape<TOutput>;
-}
+  readonly code: string;
 
-/**
- * Creates a schema that validates if the input is an object and validates each property using the provided shape.
- * @template T - The raw object shape.
- * @param shape - The shape of the object, where each key is mapped to a schema.
- * @param message - The error message to return if validation fails.
+  /**
+   * The parameters of the constraint, reported on the issue when it fails.
+   */
+  readonly params: { readonly [key: string]: unknown };
+
+  /**
+   * The error message to report when the constraint fails. If omitted, the message is resolved from `code` and
+   * `params`.
+   */
+  readonly message?: string;
+
+  /**
+   * Tests whether the value satisfies the constraint.
+   * @param value - The value to test.
+   * @returns True if the value satisfies the constraint.
+   */
+  test(value: T): boolean;
+}
+
+/**
+ * Represents a schema for a primitive type that runs a list of checks, such as `string()` or `number()`.
+ * @template T - The type of the output after successful validation.
+ */
+export interface CheckedSchema<T> extends Schema<T> {
+  /**
+   * The checks the value must satisfy, in the order they run.
+   */
+  readonly checks: readonly Check<T>[];
+}
+
+/**
+ * Splits the arguments of a constructor that accepts an optional message followed by checks.
+ * @param args - The arguments passed to the constructor.
+ * @returns A tuple of the message and the list of checks.
+ */
+function splitCheckArgs<T>(
+  args: readonly (string | Check<T>)[],
+): [string | undefined, Check<T>[]] {
+  if ("string" === typeof args[0]) {
+    return [args[0], args.slice(1) as Check<T>[]];
+  }
+  return [undefined, args as Check<T>[]];
+}
+
+/**
+ * Runs a list of checks against a value that already passed the type check.
+ * @param value - The value to check.
+ * @param checks - The checks to run, in order.
+ * @param options - The options passed to `safeParse`.
+ * @returns A successful result, or the issues of the failed checks.
+ */
+function runChecks<T>(
+  value: T,
+  checks: readonly Check<T>[],
+  options: ParseOptions | undefined,
+): Result<T> {
+  let issues: Issue[] | undefined;
+  for (const check of checks) {
+    if (check.test(value)) continue;
+    const issue = createIssue(
+      check.code,
+      check.params,
+      value,
+      options,
+      check.message,
+    );
+    if (shouldAbort(options)) return { issues: [issue] };
+    (issues ??= []).push(issue);
+  }
+  if (issues) return { issues };
+  return { value };
+}
+
+/**
+ * Creates a schema that validates if the input is a string.
+ * @param message - The error message to return if validation fails.
+ * @param checks - Additional constraints the string must satisfy.
+ * @returns A schema that validates string inputs.
+ */
+export function string(...checks: Check<string>[]): CheckedSchema<string>;
+export function string(
+  message: string,
+  ...checks: Check<string>[]
+): CheckedSchema<string>;
+export function string(
+  ...args: (string | Check<string>)[]
+): CheckedSchema<string> {
+  const [message, checks] = splitCheckArgs(args);
+  return createSchema<string, unknown, { checks: readonly Check<string>[] }>(
+    "string",
+    (value, options) => {
+      if ("string" === typeof value) return runChecks(value, checks, options);
+      return invalidType("string", value, options, message);
+    },
+    { checks },
+  );
+}
+
+/**
+ * Creates a check that requires a string to have at least the given length.
+ * @param min - The minimum length.
+ * @param message - The error message to return if the check fails.
+ * @returns A check for `string()`.
+ */
+export function minLength(
+  min: number,
+  message?: string,
+): Check<string> {
+  return {
+    code: "min_length",
+    params: { min },
+    message,
+    test: (value) => value.length >= min,
+  };
+}
+
+/**
+ * Creates a check that requires a string to have at most the given length.
+ * @param max - The maximum length.
+ * @param message - The error message to return if the check fails.
+ * @returns A check for `string()`.
+ */
+export function maxLength(
+  max: number,
+  message?: string,
+): Check<string> {
+  return {
+    code: "max_length",
+    params: { max },
+    message,
+    test: (value) => value.length <= max,
+  };
+}
+
+/**
+ * Creates a check that requires a string to have exactly the given length.
+ * @param length - The exact length.
+ * @param message - The error message to return if the check fails.
+ * @returns A check for `string()`.
+ */
+export function length(
+  length: number,
+  message?: string,
+): Check<string> {
+  return {
+    code: "length",
+    params: { length },
+    message,
+    test: (value) => value.length === length,
+  };
+}
+
+/**
+ * Creates a check that requires a string to match the given regular expression.
+ * @param pattern - The regular expression to match. Avoid the `g` and `y` flags, which make `test()` stateful.
+ * @param message - The error message to return if the check fails.
+ * @returns A check for `string()`.
+ */
+export function regex(
+  pattern: RegExp,
+  message?: string,
+): Check<string> {
+  return {
+    code: "regex",
+    params: { pattern: pattern.source, flags: pattern.flags },
+    message,
+    test: (value) => pattern.test(value),
+  };
+}
+
+/**
+ * A pragmatic email pattern: a local part, an `@`, and a dotted domain without whitespace.
+ */
+const EMAIL_REGEX =
+  /^[A-Za-z0-9.!#$%&'*+/=?^_`{|}~-]+@[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?(?:\.[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?)+$/;
+
+/**
+ * Creates a check that requires a string to be an email address.
+ * @param message - The error message to return if the check fails.
+ * @returns A check for `string()`.
+ */
+export function email(message?: string): Check<string> {
+  return {
+    code: "email",
+    params: {},
+    message,
+    test: (value) => EMAIL_REGEX.test(value),
+  };
+}
+
+/**
+ * Creates a check that requires a string to be an absolute URL.
+ * @param protocols - The allowed protocols (e.g. `["https:"]`). Any protocol is allowed if omitted.
+ * @param message - The error message to return if the check fails.
+ * @returns A check for `string()`.
+ */
+export function url(
+  protocols?: readonly string[],
+  message?: string,
+): Check<string> {
+  return {
+    code: "url",
+    params: protocols ? { protocols } : {},
+    message,
+    test: (value) => {
+      try {
+        const { protocol } = new URL(value);
+        return !protocols || protocols.includes(protocol);
+      } catch {
+        return false;
+      }
+    },
+  };
+}
+
+/**
+ * Matches a UUID of any version in the canonical 8-4-4-4-12 form, including the nil and max UUIDs.
+ */
+const UUID_REGEX =
+  /^(?:[0-9a-f]{8}-[0-9a-f]{4}-[1-8][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}|0{8}-0{4}-0{4}-0{4}-0{12}|f{8}-f{4}-f{4}-f{4}-f{12})$/i;
+
+/**
+ * Creates a check that requires a string to be a UUID.
+ * @param version - The required UUID version (1-8). Any version is allowed if omitted.
+ * @param message - The error message to return if the check fails.
+ * @returns A check for `string()`.
+ */
+export function uuid(
+  version?: 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8,
+  message?: string,
+): Check<string> {
+  return {
+    code: "uuid",
+    params: version ? { version } : {},
+    message,
+    test: (value) =>
+      UUID_REGEX.test(value) &&
+      (!version || value[14] === String(version)),
+  };
+}
+
+/**
+ * Matches an ISO-8601 calendar date (`YYYY-MM-DD`).
+ */
+const ISO_DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Matches an ISO-8601 time of day (`HH:mm`, `HH:mm:ss` or `HH:mm:ss.sss`).
+ */
+const ISO_TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d(?::[0-5]\d(?:\.\d+)?)?$/;
+
+/**
+ * Matches an ISO-8601 date-time with a `Z` or `±HH:mm` offset.
+ */
+const ISO_DATETIME_REGEX =
+  /^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)(?:Z|[+-](?:[01]\d|2[0-3]):[0-5]\d)$/i;
+
+/**
+ * Checks whether a string is a valid ISO-8601 calendar date, rejecting days that do not exist (e.g. `2023-02-30`).
+ * @param value - The string to check.
+ * @returns True if the string is a valid calendar date.
+ */
+function isIsoDate(value: string): boolean {
+  const match = ISO_DATE_REGEX.exec(value);
+  if (!match) return false;
+  const [, year, month, day] = match.map(Number);
+  // `Date.UTC()` maps years 0-99 to 1900-1999, `setUTCFullYear()` does not.
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  return date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day;
+}
+
+/**
+ * Checks whether a string is a valid ISO-8601 date-time with a timezone, rejecting days that do not exist.
+ * @param value - The string to check.
+ * @returns True if the string is a valid date-time.
+ */
+function isIsoDateTime(value: string): boolean {
+  const match = ISO_DATETIME_REGEX.exec(value);
+  return !!match && isIsoDate(match[1]) && ISO_TIME_REGEX.test(match[2]);
+}
+
+/**
+ * Creates a check that requires a string to be an ISO-8601 calendar date (`YYYY-MM-DD`).
+ * @param message - The error message to return if the check fails.
+ * @returns A check for `string()`.
+ */
+export function isoDate(message?: string): Check<string> {
+  return { code: "iso_date", params: {}, message, test: isIsoDate };
+}
+
+/**
+ * Creates a check that requires a string to be an ISO-8601 time of day (`HH:mm[:ss[.sss]]`).
+ * @param message - The error message to return if the check fails.
+ * @returns A check for `string()`.
+ */
+export function isoTime(message?: string): Check<string> {
+  return {
+    code: "iso_time",
+    params: {},
+    message,
+    test: (value) => ISO_TIME_REGEX.test(value),
+  };
+}
+
+/**
+ * Creates a check that requires a string to be an ISO-8601 date-time with a timezone (`YYYY-MM-DDTHH:mm[:ss[.sss]](Z|±HH:mm)`).
+ * @param message - The error message to return if the check fails.
+ * @returns A check for `string()`.
+ */
+export function isoDateTime(message?: string): Check<string> {
+  return {
+    code: "iso_datetime",
+    params: {},
+    message,
+    test: isIsoDateTime,
+  };
+}
+
+/**
+ * Creates a schema that validates if the input is a number.
+ * @param message - The error message to return if validation fails.
+ * @param checks - Additional constraints the number must satisfy.
+ * @returns A schema that validates number inputs.
+ */
+export function number(...checks: Check<number>[]): CheckedSchema<number>;
+export function number(
+  message: string,
+  ...checks: Check<number>[]
+): CheckedSchema<number>;
+export function number(
+  ...args: (string | Check<number>)[]
+): CheckedSchema<number> {
+  const [message, checks] = splitCheckArgs(args);
+  return createSchema<number, unknown, { checks: readonly Check<number>[] }>(
+    "number",
+    (value, options) => {
+      if ("number" === typeof value && Number.isFinite(value)) {
+        return runChecks(value, checks, options);
+      }
+      return invalidType("number", value, options, message);
+    },
+    { checks },
+  );
+}
+
+/**
+ * Creates a schema that validates if the input is an integer.
+ * @param message - The error message to return if validation fails.
+ * @param checks - Additional constraints the integer must satisfy.
+ * @returns A schema that validates integer inputs.
+ */
+export function int(...checks: Check<number>[]): CheckedSchema<number>;
+export function int(
+  message: string,
+  ...checks: Check<number>[]
+): CheckedSchema<number>;
+export function int(
+  ...args: (string | Check<number>)[]
+): CheckedSchema<number> {
+  const [message, checks] = splitCheckArgs(args);
+  return createSchema<number, unknown, { checks: readonly Check<number>[] }>(
+    "int",
+    (value, options) => {
+      if (Number.isInteger(value)) {
+        return runChecks(value as number, checks, options);
+      }
+      return invalidType("integer", value, options, message);
+    },
+    { checks },
+  );
+}
+
+/**
+ * Creates a schema that validates if the input is a bigint.
+ * @param message - The error message to return if validation fails.
+ * @param checks - Additional constraints the bigint must satisfy.
+ * @returns A schema that validates bigint inputs.
+ */
+export function bigint(...checks: Check<bigint>[]): CheckedSchema<bigint>;
+export function bigint(
+  message: string,
+  ...checks: Check<bigint>[]
+): CheckedSchema<bigint>;
+export function bigint(
+  ...args: (string | Check<bigint>)[]
+): CheckedSchema<bigint> {
+  const [message, checks] = splitCheckArgs(args);
+  return createSchema<bigint, unknown, { checks: readonly Check<bigint>[] }>(
+    "bigint",
+    (value, options) => {
+      if ("bigint" === typeof value) return runChecks(value, checks, options);
+      return invalidType("bigint", value, options, message);
+    },
+    { checks },
+  );
+}
+
+/**
+ * Creates a check that requires a number, bigint or date to be greater than or equal to the given bound.
+ * @param bound - The inclusive lower bound.
+ * @param message - The error message to return if the check fails.
+ * @returns A check for `number()`, `int()`, `bigint()`, `date()` or `instant()`.
+ */
+export function min(bound: number, message?: string): Check<number>;
+export function min(bound: bigint, message?: string): Check<bigint>;
+export function min(bound: Date, message?: string): Check<Date>;
+export function min(
+  bound: number | bigint | Date,
+  message?: string,
+): Check<number | bigint | Date> {
+  return {
+    code: "min",
+    params: { min: bound, exclusive: false },
+    message,
+    test: (value) => value >= bound,
+  };
+}
+
+/**
+ * Creates a check that requires a number, bigint or date to be less than or equal to the given bound.
+ * @param bound - The inclusive upper bound.
+ * @param message - The error message to return if the check fails.
+ * @returns A check for `number()`, `int()`, `bigint()`, `date()` or `instant()`.
+ */
+export function max(bound: number, message?: string): Check<number>;
+export function max(bound: bigint, message?: string): Check<bigint>;
+export function max(bound: Date, message?: string): Check<Date>;
+export function max(
+  bound: number | bigint | Date,
+  message?: string,
+): Check<number | bigint | Date> {
+  return {
+    code: "max",
+    params: { max: bound, exclusive: false },
+    message,
+    test: (value) => value <= bound,
+  };
+}
+
+/**
+ * Creates a check that requires a number, bigint or date to be strictly greater than the given bound.
+ * @param bound - The exclusive lower bound.
+ * @param message - The error message to return if the check fails.
+ * @returns A check for `number()`, `int()`, `bigint()`, `date()` or `instant()`.
+ */
+export function gt(bound: number, message?: string): Check<number>;
+export function gt(bound: bigint, message?: string): Check<bigint>;
+export function gt(bound: Date, message?: string): Check<Date>;
+export function gt(
+  bound: number | bigint | Date,
+  message?: string,
+): Check<number | bigint | Date> {
+  return {
+    code: "min",
+    params: { min: bound, exclusive: true },
+    message,
+    test: (value) => value > bound,
+  };
+}
+
+/**
+ * Creates a check that requires a number, bigint or date to be strictly less than the given bound.
+ * @param bound - The exclusive upper bound.
+ * @param message - The error message to return if the check fails.
+ * @returns A check for `number()`, `int()`, `bigint()`, `date()` or `instant()`.
+ */
+export function lt(bound: number, message?: string): Check<number>;
+export function lt(bound: bigint, message?: string): Check<bigint>;
+export function lt(bound: Date, message?: string): Check<Date>;
+export function lt(
+  bound: number | bigint | Date,
+  message?: string,
+): Check<number | bigint | Date> {
+  return {
+    code: "max",
+    params: { max: bound, exclusive: true },
+    message,
+    test: (value) => value < bound,
+  };
+}
+
+/**
+ * Creates a check that requires a number to be greater than zero.
+ * @param message - The error message to return if the check fails.
+ * @returns A check for `number()` or `int()`.
+ */
+export function positive(message?: string): Check<number> {
+  return {
+    code: "positive",
+    params: { min: 0, exclusive: true },
+    message,
+    test: (value) => value > 0,
+  };
+}
+
+/**
+ * Creates a check that requires a number to be less than zero.
+ * @param message - The error message to return if the check fails.
+ * @returns A check for `number()` or `int()`.
+ */
+export function negative(message?: string): Check<number> {
+  return {
+    code: "negative",
+    params: { max: 0, exclusive: true },
+    message,
+    test: (value) => value < 0,
+  };
+}
+
+/**
+ * Creates a check that requires a number or bigint to be a multiple of the given step.
+ * Number steps are compared with a tolerance relative to the magnitude of the value and the step, so that decimal
+ * steps such as `0.01` behave as expected.
+ * @param step - The step the value must be a multiple of. Must be greater than zero.
+ * @param message - The error message to return if the check fails.
+ * @returns A check for `number()`, `int()` or `bigint()`.
+ * @throws {RangeError} If the step is not greater than zero.
+ */
+export function multipleOf(step: number, message?: string): Check<number>;
+export function multipleOf(step: bigint, message?: string): Check<bigint>;
+export function multipleOf(
+  step: number | bigint,
+  message?: string,
+): Check<number | bigint> {
+  if (!(step > 0)) {
+    throw new RangeError(`Expected a step greater than 0, got ${step}`);
+  }
+  return {
+    code: "multiple_of",
+    params: { step },
+    message,
+    test: (value) => {
+      if ("bigint" === typeof value) return value % (step as bigint) === 0n;
+      const divisor = step as number;
+      const remainder = Math.abs(value % divisor);
+      const tolerance = 4 * Number.EPSILON *
+        Math.max(Math.abs(value), divisor);
+      return Math.min(remainder, divisor - remainder) <= tolerance;
+    },
+  };
+}
+
+/**
+ * Creates a check that requires a number to be a safe integer, i.e. one that survives a round-trip through JSON
+ * and IEEE-754 doubles without losing precision.
+ * @param message - The error message to return if the check fails.
+ * @returns A check for `number()` or `int()`.
+ */
+export function safeInteger(message?: string): Check<number> {
+  return {
+    code: "safe_integer",
+    params: {
+      min: Number.MIN_SAFE_INTEGER,
+      max: Number.MAX_SAFE_INTEGER,
+    },
+    message,
+    test: Number.isSafeInteger,
+  };
+}
+
+/**
+ * Creates a schema that validates if the input is a boolean.
+ * @param message - The error message to return if validation fails.
+ * @returns A schema that validates boolean inputs.
+ */
+export function boolean(message?: string): Schema<boolean> {
+  return createSchema<boolean>(
+    "boolean",
+    (value, options) => {
+      if ("boolean" === typeof value) return { value };
+      return invalidType("boolean", value, options, message);
+    },
+  );
+}
+
+/**
+ * Creates a schema that accepts any input and outputs it unchanged.
+ * @returns A schema that validates any input.
+ */
+export function unknown(): Schema<unknown> {
+  return createSchema<unknown>("unknown", (value) => ({ value }));
+}
+
+/**
+ * Creates a schema that rejects every input, including `undefined`, e.g. for branches that can never match. Wrap it
+ * in `maybe()` for keys that must be left out.
+ * @param message - The error message to return for every input.
+ * @returns A schema that validates no input.
+ */
+export function never(message?: string): Schema<never> {
+  return createSchema<never>(
+    "never",
+    (value, options) => invalidType("never", value, options, message),
+  );
+}
+
+/**
+ * Creates a schema that validates if the input is a valid `Date` instance.
+ * Dates whose time value is `NaN` (e.g. `new Date("foo")`) are rejected.
+ * @param message - The error message to return if validation fails.
+ * @param checks - Additional constraints the date must satisfy, such as `min()` and `max()`.
+ * @returns A schema that validates date inputs.
+ */
+export function date(...checks: Check<Date>[]): CheckedSchema<Date>;
+export function date(
+  message: string,
+  ...checks: Check<Date>[]
+): CheckedSchema<Date>;
+export function date(
+  ...args: (string | Check<Date>)[]
+): CheckedSchema<Date> {
+  const [message, checks] = splitCheckArgs(args);
+  return createSchema<Date, unknown, { checks: readonly Check<Date>[] }>(
+    "date",
+    (value, options) => {
+      if (value instanceof Date && !Number.isNaN(value.getTime())) {
+        return runChecks(value, checks, options);
+      }
+      return invalidType("date", value, options, message);
+    },
+    { checks },
+  );
+}
+
+/**
+ * Represents a schema that parses ISO-8601 date-time strings to `Date` instances.
+ */
+export interface InstantSchema extends Schema<Date> {
+  /**
+   * The checks the parsed date must satisfy, in the order they run.
+   */
+  readonly checks: readonly Check<Date>[];
+}
+
+/**
+ * Creates a schema that parses an ISO-8601 date-time string with a timezone (e.g. `"2024-05-01T10:30:00Z"`) to a
+ * `Date`, for JSON payloads where dates travel as strings.
+ * @param message - The error message to return if the input is not a valid date-time string.
+ * @param checks - Additional constraints the parsed date must satisfy, such as `min()` and `max()`.
+ * @returns A schema that validates date-time strings and outputs dates.
+ */
+export function instant(...checks: Check<Date>[]): InstantSchema;
+export function instant(
+  message: string,
+  ...checks: Check<Date>[]
+): InstantSchema;
+export function instant(...args: (string | Check<Date>)[]): InstantSchema {
+  const [message, checks] = splitCheckArgs(args);
+  return createSchema<Date, unknown, { checks: readonly Check<Date>[] }>(
+    "instant",
+    (value, options) => {
+      if ("string" !== typeof value) {
+        return invalidType("string", value, options, message);
+      }
+      if (!isIsoDateTime(value)) {
+        return {
+          issues: [createIssue("iso_datetime", {}, value, options, message)],
+        };
+      }
+      return runChecks(new Date(value), checks, options);
+    },
+    { checks },
+  );
+}
+
+/**
+ * Represents an ISO-8601 duration. Negative durations (`-P1D`) have every component negated.
+ */
+export interface Duration {
+  /**
+   * The number of years.
+   */
+  readonly years: number;
+
+  /**
+   * The number of months.
+   */
+  readonly months: number;
+
+  /**
+   * The number of weeks.
+   */
+  readonly weeks: number;
+
+  /**
+   * The number of days.
+   */
+  readonly days: number;
+
+  /**
+   * The number of hours.
+   */
+  readonly hours: number;
+
+  /**
+   * The number of minutes.
+   */
+  readonly minutes: number;
+
+  /**
+   * The number of seconds.
+   */
+  readonly seconds: number;
+}
+
+/**
+ * Matches an ISO-8601 duration such as `P1Y2M3DT4H5M6.5S` or `P2W`, with an optional sign.
+ */
+const ISO_DURATION_REGEX =
+  /^([+-])?P(?!$)(?:(\d+(?:[.,]\d+)?)Y)?(?:(\d+(?:[.,]\d+)?)M)?(?:(\d+(?:[.,]\d+)?)W)?(?:(\d+(?:[.,]\d+)?)D)?(?:T(?=\d)(?:(\d+(?:[.,]\d+)?)H)?(?:(\d+(?:[.,]\d+)?)M)?(?:(\d+(?:[.,]\d+)?)S)?)?$/;
+
+/**
+ * Creates a schema that parses an ISO-8601 duration string (e.g. `"PT1H30M"`) to its components.
+ * @param message - The error message to return if the input is not a valid duration string.
+ * @returns A schema that validates duration strings and outputs their components.
+ */
+export function duration(message?: string): Schema<Duration> {
+  return createSchema<Duration>(
+    "duration",
+    (value, options) => {
+      if ("string" !== typeof value) {
+        return invalidType("string", value, options, message);
+      }
+      const match = ISO_DURATION_REGEX.exec(value);
+      if (!match) {
+        return {
+          issues: [createIssue("iso_duration", {}, value, options, message)],
+        };
+      }
+      const sign = "-" === match[1] ? -1 : 1;
+      const [years, months, weeks, days, hours, minutes, seconds] = match
+        .slice(2)
+        .map((part) => part ? sign * Number(part.replace(",", ".")) : 0);
+      return {
+        value: { years, months, weeks, days, hours, minutes, seconds },
+      };
+    },
+  );
+}
+
+/**
+ * Creates a schema that validates if the input is a `Blob`, including `File` instances.
+ * @param message - The error message to return if validation fails.
+ * @param checks - Additional constraints the blob must satisfy, such as `maxSize()` and `mimeType()`.
+ * @returns A schema that validates blob inputs.
+ */
+export function blob(...checks: Check<Blob>[]): CheckedSchema<Blob>;
+export function blob(
+  message: string,
+  ...checks: Check<Blob>[]
+): CheckedSchema<Blob>;
+export function blob(
+  ...args: (string | Check<Blob>)[]
+): CheckedSchema<Blob> {
+  const [message, checks] = splitCheckArgs(args);
+  return createSchema<Blob, unknown, { checks: readonly Check<Blob>[] }>(
+    "blob",
+    (value, options) => {
+      if (value instanceof Blob) return runChecks(value, checks, options);
+      return invalidType("blob", value, options, message);
+    },
+    { checks },
+  );
+}
+
+/**
+ * Creates a schema that validates if the input is a `File`, such as an upload decoded from form data.
+ * @param message - The error message to return if validation fails.
+ * @param checks - Additional constraints the file must satisfy, such as `maxSize()`, `mimeType()` and `extension()`.
+ * @returns A schema that validates file inputs.
+ */
+export function file(...checks: Check<File>[]): CheckedSchema<File>;
+export function file(
+  message: string,
+  ...checks: Check<File>[]
+): CheckedSchema<File>;
+export function file(
+  ...args: (string | Check<File>)[]
+): CheckedSchema<File> {
+  const [message, checks] = splitCheckArgs(args);
+  return createSchema<File, unknown, { checks: readonly Check<File>[] }>(
+    "file",
+    (value, options) => {
+      if (value instanceof File) return runChecks(value, checks, options);
+      return invalidType("file", value, options, message);
+    },
+    { checks },
+  );
+}
+
+/**
+ * Creates a check that requires a blob to be at least the given number of bytes.
+ * @param min - The minimum size, in bytes.
+ * @param message - The error message to return if the check fails.
+ * @returns A check for `blob()` or `file()`.
+ */
+export function minSize(min: number, message?: string): Check<Blob> {
+  return {
+    code: "min_size",
+    params: { min },
+    message,
+    test: (value) => value.size >= min,
+  };
+}
+
+/**
+ * Creates a check that requires a blob to be at most the given number of bytes.
+ * @param max - The maximum size, in bytes.
+ * @param message - The error message to return if the check fails.
+ * @returns A check for `blob()` or `file()`.
+ */
+export function maxSize(max: number, message?: string): Check<Blob> {
+  return {
+    code: "max_size",
+    params: { max },
+    message,
+    test: (value) => value.size <= max,
+  };
+}
+
+/**
+ * Normalizes a MIME type for comparison, dropping its parameters (e.g. `; charset=utf-8`).
+ * @param type - The MIME type.
+ * @returns The lowercased type without parameters.
+ */
+function essence(type: string): string {
+  return type.split(";")[0].trim().toLowerCase();
+}
+
+/**
+ * Creates a check that requires the declared type of a blob to be one of the given MIME types.
+ * Types are compared case-insensitively and without parameters, a subtype of `*` (e.g. `image/*`) matches any
+ * subtype, and a type and subtype of `*` match any declared type. Blobs without a declared type fail the check.
+ * @param types - The allowed MIME types.
+ * @param message - The error message to return if the check fails.
+ * @returns A check for `blob()` or `file()`.
+ */
+export function mimeType(
+  types: readonly string[],
+  message?: string,
+): Check<Blob> {
+  const allowed = types.map(essence);
+  return {
+    code: "mime_type",
+    params: { types },
+    message,
+    test: (value) => {
+      const type = essence(value.type);
+      return allowed.some((pattern) => {
+        if ("*/*" === pattern) return "" !== type;
+        return pattern.endsWith("/*")
+          ? type.startsWith(pattern.slice(0, -1))
+          : pattern === type;
+      });
+    },
+  };
+}
+
+/**
+ * Creates a check that requires the name of a file to end with one of the given extensions, ignoring case.
+ * @param extensions - The allowed extensions, with or without the leading dot (e.g. `[".png", "jpg"]`).
+ * @param message - The error message to return if the check fails.
+ * @returns A check for `file()`.
+ */
+export function extension(
+  extensions: readonly string[],
+  message?: string,
+): Check<File> {
+  const suffixes = extensions.map((extension) =>
+    `.${extension.replace(/^\./, "").toLowerCase()}`
+  );
+  return {
+    code: "extension",
+    params: { extensions },
+    message,
+    test: (value) => {
+      const name = value.name.toLowerCase();
+      return suffixes.some((suffix) => name.endsWith(suffix));
+    },
+  };
+}
+
+/**
+ * Creates a check that requires the name of a file to match the given regular expression.
+ * @param pattern - The regular expression to match. Avoid the `g` and `y` flags, which make `test()` stateful.
+ * @param message - The error message to return if the check fails.
+ * @returns A check for `file()`.
+ */
+export function fileName(pattern: RegExp, message?: string): Check<File> {
+  return {
+    code: "file_name",
+    params: { pattern: pattern.source, flags: pattern.flags },
+    message,
+    test: (value) => pattern.test(value.name),
+  };
+}
+
+/**
+ * The leading bytes of common file formats, keyed by MIME type. Each signature is a hex string in which `??` matches
+ * any byte, and a type matches if any of its signatures does.
+ */
+const MAGIC_BYTES: { readonly [type: string]: readonly string[] } = {
+  "image/png": ["89504e470d0a1a0a"],
+  "image/jpeg": ["ffd8ff"],
+  "image/gif": ["474946383761", "474946383961"],
+  "image/webp": ["52494646????????57454250"],
+  "image/avif": ["????????6674797061766966", "????????6674797061766973"],
+  "image/bmp": ["424d"],
+  "image/tiff": ["49492a00", "4d4d002a"],
+  "image/x-icon": ["00000100"],
+  "image/vnd.microsoft.icon": ["00000100"],
+  "video/mp4": ["????????66747970"],
+  "video/webm": ["1a45dfa3"],
+  "application/pdf": ["255044462d"],
+  "application/zip": ["504b0304", "504b0506", "504b0708"],
+  "application/gzip": ["1f8b"],
+};
+
+/**
+ * Checks whether the leading bytes of a blob match a signature.
+ * @param bytes - The leading bytes of the blob.
+ * @param signature - The signature, as a hex string in which `??` matches any byte.
+ * @returns True if the bytes match.
+ */
+function matchesSignature(bytes: Uint8Array, signature: string): boolean {
+  const length = signature.length / 2;
+  if (bytes.length < length) return false;
+  for (let i = 0; i < length; i++) {
+    const pair = signature.slice(i * 2, i * 2 + 2);
+    if ("??" !== pair && bytes[i] !== parseInt(pair, 16)) return false;
+  }
+  return true;
+}
+
+/**
+ * Returns a new schema that reads the leading bytes of a blob and fails if they do not match its declared type, e.g.
+ * a `.exe` uploaded as `image/png`. Only the types with a known signature are sniffed (PNG, JPEG, GIF, WebP, AVIF,
+ * BMP, TIFF, ICO, MP4, WebM, PDF, ZIP and gzip); blobs of other or missing types pass. Since reading a blob is
+ * asynchronous, the schema must be parsed with `parseAsync()` or `safeParseAsync()`.
+ * @template T - The blob or file schema type.
+ * @param schema - The schema validating the blob.
+ * @param message - The error message to return if the content does not match the declared type.
+ * @returns A new schema that also checks the content of the blob.
+ */
+export function magicBytes<T extends Schema<Blob>>(
+  schema: T,
+  message?: string,
+): WrapperSchema<T> {
+  return schema.refine(async (value) => {
+    const signatures = MAGIC_BYTES[essence(value.type)];
+    if (!signatures) return true;
+    const bytes = new Uint8Array(await value.slice(0, 16).arrayBuffer());
+    return signatures.some((signature) => matchesSignature(bytes, signature));
+  }, { code: "magic_bytes", message }) as WrapperSchema<T>;
+}
+
+/**
+ * Creates a schema that converts the input before validating it with the given schema.
+ * @template T - The schema type.
+ * @param convert - A function that converts the raw input. It must return the input unchanged if it cannot convert it.
+ * @param schema - The schema used to validate the converted input.
+ * @returns A schema that validates the converted input.
+ */
+function preprocess<T extends Schema>(
+  convert: (input: unknown) => unknown,
+  schema: T,
+): WrapperSchema<T> {
+  return createSchema<InferOutput<T>, unknown, { wrapped: T }>(
+    "coerce",
+    (input, options) => {
+      return schema["~validate"](convert(input), options) as MaybePromise<
+        Result<InferOutput<T>>
+      >;
+    },
+    { wrapped: schema },
+  );
+}
+
+/**
+ * Converts a non-blank string to a number.
+ * Blank strings are left unchanged, since `Number("")` is `0`.
+ * @param input - The raw input.
+ * @returns The converted number, or the input unchanged.
+ */
+function toNumber(input: unknown): unknown {
+  if ("string" !== typeof input || "" === input.trim()) return input;
+  return Number(input);
+}
+
+/**
+ * Matches an optionally signed string of digits.
+ */
+const INTEGER_REGEX = /^[+-]?\d+$/;
+
+/**
+ * Converts an integer string or an integer number to a bigint.
+ * @param input - The raw input.
+ * @returns The converted bigint, or the input unchanged.
+ */
+function toBigInt(input: unknown): unknown {
+  if ("string" === typeof input && INTEGER_REGEX.test(input.trim())) {
+    return BigInt(input.trim());
+  }
+  if (Number.isInteger(input)) return BigInt(input as number);
+  return input;
+}
+
+/**
+ * The string forms accepted as booleans, as sent by HTML checkboxes and query strings.
+ */
+const BOOLEAN_STRINGS = new Map<string, boolean>([
+  ["true", true],
+  ["on", true],
+  ["yes", true],
+  ["1", true],
+  ["false", false],
+  ["off", false],
+  ["no", false],
+  ["0", false],
+]);
+
+/**
+ * Converts a known boolean string (case-insensitive) to a boolean.
+ * @param input - The raw input.
+ * @returns The converted boolean, or the input unchanged.
+ */
+function toBoolean(input: unknown): unknown {
+  if ("string" !== typeof input) return input;
+  return BOOLEAN_STRINGS.get(input.trim().toLowerCase()) ?? input;
+}
+
+/**
+ * Converts an ISO-8601 date or date-time string, or a timestamp in milliseconds, to a `Date`.
+ * @param input - The raw input.
+ * @returns The converted date, or the input unchanged.
+ */
+function toDate(input: unknown): unknown {
+  if ("number" === typeof input) return new Date(input);
+  if ("string" !== typeof input) return input;
+  const value = input.trim();
+  if (isIsoDate(value)) return new Date(value);
+  if (isIsoDateTime(value)) return new Date(value);
+  return input;
+}
+
+/**
+ * Coercing variants of the primitive schemas, for inputs such as `FormData` and query strings where every value is a string.
+ * Each function converts the input when it can and then validates it with the given schema, so invalid input is reported by
+ * that schema (e.g. `"abc"` becomes `NaN` and fails with `"Expected number"`).
+ */
+export interface Coerce {
+  /**
+   * Converts non-blank strings to numbers (e.g. `"42"` → `42`).
+   * @param schema - The schema used to validate the converted input. Defaults to `number()`.
+   * @returns A schema that validates the converted input.
+   */
+  number<T extends Schema = Schema<number>>(
+    schema?: T,
+  ): WrapperSchema<T>;
+
+  /**
+   * Converts integer strings and integer numbers to bigints (e.g. `"42"` → `42n`).
+   * @param schema - The schema used to validate the converted input. Defaults to `bigint()`.
+   * @returns A schema that validates the converted input.
+   */
+  bigint<T extends Schema = Schema<bigint>>(
+    schema?: T,
+  ): WrapperSchema<T>;
+
+  /**
+   * Converts `"true"`, `"on"`, `"yes"` and `"1"` to `true`, and `"false"`, `"off"`, `"no"` and `"0"` to `false` (case-insensitive).
+   * @param schema - The schema used to validate the converted input. Defaults to `boolean()`.
+   * @returns A schema that validates the converted input.
+   */
+  boolean<T extends Schema = Schema<boolean>>(
+    schema?: T,
+  ): WrapperSchema<T>;
+
+  /**
+   * Converts ISO-8601 date and date-time strings and millisecond timestamps to `Date` instances.
+   * @param schema - The schema used to validate the converted input. Defaults to `date()`.
+   * @returns A schema that validates the converted input.
+   */
+  date<T extends Schema = Schema<Date>>(
+    schema?: T,
+  ): WrapperSchema<T>;
+}
+
+/**
+ * Implements {@link Coerce.number}.
+ * @param schema - The schema used to validate the converted input. Defaults to `number()`.
+ * @returns A schema that validates the converted input.
+ */
+function coerceNumber<T extends Schema = Schema<number>>(
+  schema?: T,
+): WrapperSchema<T>;
+function coerceNumber(schema?: Schema): WrapperSchema<Schema> {
+  return preprocess(toNumber, schema ?? number());
+}
+
+/**
+ * Implements {@link Coerce.bigint}.
+ * @param schema - The schema used to validate the converted input. Defaults to `bigint()`.
+ * @returns A schema that validates the converted input.
+ */
+function coerceBigInt<T extends Schema = Schema<bigint>>(
+  schema?: T,
+): WrapperSchema<T>;
+function coerceBigInt(schema?: Schema): WrapperSchema<Schema> {
+  return preprocess(toBigInt, schema ?? bigint());
+}
+
+/**
+ * Implements {@link Coerce.boolean}.
+ * @param schema - The schema used to validate the converted input. Defaults to `boolean()`.
+ * @returns A schema that validates the converted input.
+ */
+function coerceBoolean<T extends Schema = Schema<boolean>>(
+  schema?: T,
+): WrapperSchema<T>;
+function coerceBoolean(schema?: Schema): WrapperSchema<Schema> {
+  return preprocess(toBoolean, schema ?? boolean());
+}
+
+/**
+ * Implements {@link Coerce.date}.
+ * @param schema - The schema used to validate the converted input. Defaults to `date()`.
+ * @returns A schema that validates the converted input.
+ */
+function coerceDate<T extends Schema = Schema<Date>>(
+  schema?: T,
+): WrapperSchema<T>;
+function coerceDate(schema?: Schema): WrapperSchema<Schema> {
+  return preprocess(toDate, schema ?? date());
+}
+
+/**
+ * Coercing variants of the primitive schemas.
+ * @see {@link Coerce}
+ */
+export const coerce: Coerce = {
+  number: coerceNumber,
+  bigint: coerceBigInt,
+  boolean: coerceBoolean,
+  date: coerceDate,
+};
+
+/**
+ * Represents a schema for validating arrays.
+ * @template T - The schema type for validating array elements.
+ */
+export interface ArraySchema<T extends Schema>
+  extends Schema<InferOutput<T>[]> {
+  /**
+   * The schema used to validate each element.
+   */
+  readonly item: T;
+}
+
+/**
+ * Creates a schema that validates if the input is an array and validates each element using the provided schema.
+ * @template T - The schema type for validating array elements.
+ * @param schema - The schema used to validate each element of the array.
+ * @param message - The error message to return if validation fails.
+ * @returns A schema that validates array inputs.
+ */
+export function array<T extends StandardSchemaV1>(
+  schema: T,
+  message?: string,
+): ArraySchema<AsSchema<T>> {
+  const item = toSchema(schema);
+  return createSchema<InferOutput<T>[], unknown, { item: AsSchema<T> }>(
+    "array",
+    (input, options) => {
+      if (!Array.isArray(input)) {
+        return invalidType("array", input, options, message);
+      }
+      return validateEntries(
+        input.length,
+        (i) => i,
+        (i) => item["~validate"](input[i], options),
+        options,
+        (values) => ({ value: values as InferOutput<T>[] }),
+      );
+    },
+    { item },
+  );
+}
+
+/**
+ * Infers the output type of a tuple schema.
+ * @template T - The tuple of item schemas.
+ * @template R - The schema of the rest items, if any.
+ */
+export type TupleOutput<
+  T extends readonly StandardSchemaV1[],
+  R extends StandardSchemaV1 | undefined,
+> = [
+  ...{ -readonly [K in keyof T]: InferOutput<T[K]> },
+  ...(R extends StandardSchemaV1 ? InferOutput<R>[] : []),
+];
+
+/**
+ * Represents a schema for validating fixed-length arrays whose items each have their own schema.
+ * @template T - The tuple of item schemas.
+ * @template R - The schema of the rest items, if any.
+ */
+export interface TupleSchema<
+  T extends readonly Schema[],
+  R extends Schema | undefined = undefined,
+> extends Schema<TupleOutput<T, R>> {
+  /**
+   * The schemas of the items, by position.
+   */
+  readonly items: T;
+
+  /**
+   * The schema of the items after the last positional item, if any.
+   */
+  readonly rest?: R;
+}
+
+/**
+ * Creates a schema that validates if the input is an array whose items match the given schemas by position.
+ * Missing trailing items are validated as `undefined`, so they may be wrapped in `maybe()`. Extra items are
+ * reported as an issue unless a rest schema is given, in which case they are validated against it.
+ * @template T - The tuple of item schemas.
+ * @template R - The schema of the rest items.
+ * @param items - The schemas of the items, by position.
+ * @param rest - The schema extra items are validated against.
+ * @param message - The error message to return if the input is not an array.
+ * @returns A schema that validates tuple inputs.
+ */
+export function tuple<const T extends readonly StandardSchemaV1[]>(
+  items: T,
+  message?: string,
+): TupleSchema<AsSchemas<T>>;
+export function tuple<
+  const T extends readonly StandardSchemaV1[],
+  R extends StandardSchemaV1,
+>(
+  items: T,
+  rest: R,
+  message?: string,
+): TupleSchema<AsSchemas<T>, AsSchema<R>>;
+export function tuple(
+  itemSchemas: readonly StandardSchemaV1[],
+  ...args: [message?: string] | [rest: StandardSchemaV1, message?: string]
+): TupleSchema<readonly Schema[], Schema | undefined> {
+  // Standard Schemas may be functions (e.g. ArkType types), so tell them apart from the message instead.
+  const [restSchema, message] = "string" === typeof args[0] ||
+      undefined === args[0]
+    ? [undefined, args[0]]
+    : args as [StandardSchemaV1, string?];
+  const items = itemSchemas.map(toSchema);
+  const rest = restSchema && toSchema(restSchema);
+  type Output = TupleOutput<readonly Schema[], Schema | undefined>;
+  return createSchema<Output, unknown, { items: Schema[]; rest?: Schema }>(
+    "tuple",
+    (input, options) => {
+      if (!Array.isArray(input)) {
+        return invalidType("array", input, options, message);
+      }
+      if (!rest && input.length > items.length) {
+        const params = { max: items.length };
+        return {
+          issues: [createIssue("max_items", params, input, options)],
+        };
+      }
+      return validateEntries(
+        Math.max(input.length, items.length),
+        (i) => i,
+        (i) => (items[i] ?? rest)["~validate"](input[i], options),
+        options,
+        (values) => ({ value: values as Output }),
+      );
+    },
+    { items, ...(rest && { rest }) },
+  );
+}
+
+/**
+ * Validates a key and its value, the key first.
+ * @param keySchema - The schema the key is validated against.
+ * @param valueSchema - The schema the value is validated against.
+ * @param key - The key.
+ * @param value - The value.
+ * @param options - The options passed to `safeParse`.
+ * @returns The validated key and value, or the issues of the first that failed.
+ */
+function validatePair(
+  keySchema: Schema,
+  valueSchema: Schema,
+  key: unknown,
+  value: unknown,
+  options: ParseOptions | undefined,
+): MaybePromise<Result<[unknown, unknown]>> {
+  return then(keySchema["~validate"](key, options), (keyResult) => {
+    if (keyResult.issues) return keyResult;
+    return then(valueSchema["~validate"](value, options), (valueResult) => {
+      if (valueResult.issues) return valueResult;
+      return { value: [keyResult.value, valueResult.value] };
+    });
+  });
+}
+
+/**
+ * Represents a schema for validating dictionaries whose keys and values each match a schema.
+ * @template K - The schema of the keys.
+ * @template V - The schema of the values.
+ */
+export interface RecordSchema<K extends Schema<string>, V extends Schema>
+  extends Schema<Record<InferOutput<K>, InferOutput<V>>> {
+  /**
+   * The schema the keys are validated against.
+   */
+  readonly key: K;
+
+  /**
+   * The schema the values are validated against.
+   */
+  readonly value: V;
+}
+
+/**
+ * Creates a schema that validates if the input is a plain object whose keys and values match the given schemas,
+ * e.g. a dictionary keyed by IDs. Issues are reported at the key they belong to.
+ * Like `object()`, it only accepts plain objects and builds its output without a prototype.
+ * @template K - The schema of the keys.
+ * @template V - The schema of the values.
+ * @param keySchema - The schema the keys are validated against.
+ * @param valueSchema - The schema the values are validated against.
+ * @param message - The error message to return if the input is not an object.
+ * @returns A schema that validates record inputs.
+ */
+export function record<
+  K extends StandardSchemaV1<unknown, string>,
+  V extends StandardSchemaV1,
+>(
+  keySchema: K,
+  valueSchema: V,
+  message?: string,
+): RecordSchema<AsSchema<K>, AsSchema<V>> {
+  type Output = Record<InferOutput<K>, InferOutput<V>>;
+  const key = toSchema(keySchema);
+  const value = toSchema(valueSchema);
+  return createSchema<
+    Output,
+    unknown,
+    { key: AsSchema<K>; value: AsSchema<V> }
+  >(
+    "record",
+    (input, options) => {
+      if (!isObject(input)) {
+        return invalidType("object", input, options, message);
+      }
+      const keys = Object.keys(input);
+      return validateEntries(
+        keys.length,
+        (i) => keys[i],
+        (i) => validatePair(key, value, keys[i], input[keys[i]], options),
+        options,
+        (entries) => {
+          const output = Object.create(null) as { [key: string]: unknown };
+          for (const [name, item] of entries as [string, unknown][]) {
+            output[name] = item;
+          }
+          return { value: output as Output };
+        },
+      );
+    },
+    { key, value },
+  );
+}
+
+/**
+ * Represents a schema for validating `Map` instances whose keys and values each match a schema.
+ * @template K - The schema of the keys.
+ * @template V - The schema of the values.
+ */
+export interface MapSchema<K extends Schema, V extends Schema>
+  extends Schema<Map<InferOutput<K>, InferOutput<V>>> {
+  /**
+   * The schema the keys are validated against.
+   */
+  readonly key: K;
+
+  /**
+   * The schema the values are validated against.
+   */
+  readonly value: V;
+}
+
+/**
+ * Creates a schema that validates if the input is a `Map` whose keys and values match the given schemas.
+ * Issues are reported at the key they belong to, or at the position of the entry if the key is not a string, number
+ * or symbol.
+ * @template K - The schema of the keys.
+ * @template V - The schema of the values.
+ * @param keySchema - The schema the keys are validated against.
+ * @param valueSchema - The schema the values are validated against.
+ * @param message - The error message to return if the input is not a `Map`.
+ * @returns A schema that validates map inputs.
+ */
+export function map<K extends StandardSchemaV1, V extends StandardSchemaV1>(
+  keySchema: K,
+  valueSchema: V,
+  message?: string,
+): MapSchema<AsSchema<K>, AsSchema<V>> {
+  type Output = Map<InferOutput<K>, InferOutput<V>>;
+  const key = toSchema(keySchema);
+  const value = toSchema(valueSchema);
+  return createSchema<
+    Output,
+    unknown,
+    { key: AsSchema<K>; value: AsSchema<V> }
+  >(
+    "map",
+    (input, options) => {
+      if (!(input instanceof Map)) {
+        return invalidType("map", input, options, message);
+      }
+      const entries = [...input];
+      return validateEntries(
+        entries.length,
+        (i) => {
+          const key = entries[i][0];
+          return "string" === typeof key || "number" === typeof key ||
+              "symbol" === typeof key
+            ? key
+            : i;
+        },
+        (i) => validatePair(key, value, ...entries[i], options),
+        options,
+        (values) => ({ value: new Map(values as [never, never][]) }),
+      );
+    },
+    { key, value },
+  );
+}
+
+/**
+ * Represents a schema for validating `Set` instances whose items match a schema.
+ * @template T - The schema of the items.
+ */
+export interface SetSchema<T extends Schema>
+  extends Schema<Set<InferOutput<T>>> {
+  /**
+   * The schema used to validate each item.
+   */
+  readonly item: T;
+}
+
+/**
+ * Creates a schema that validates if the input is a `Set` whose items match the given schema.
+ * Issues are reported at the position of the item in insertion order.
+ * @template T - The schema of the items.
+ * @param schema - The schema used to validate each item.
+ * @param message - The error message to return if the input is not a `Set`.
+ * @returns A schema that validates set inputs.
+ */
+export function set<T extends StandardSchemaV1>(
+  schema: T,
+  message?: string,
+): SetSchema<AsSchema<T>> {
+  const item = toSchema(schema);
+  return createSchema<Set<InferOutput<T>>, unknown, { item: AsSchema<T> }>(
+    "set",
+    (input, options) => {
+      if (!(input instanceof Set)) {
+        return invalidType("set", input, options, message);
+      }
+      const items = [...input];
+      return validateEntries(
+        items.length,
+        (i) => i,
+        (i) => item["~validate"](items[i], options),
+        options,
+        (values) => ({ value: new Set(values as InferOutput<T>[]) }),
+      );
+    },
+    { item },
+  );
+}
+
+/**
+ * Represents a raw object shape where keys are property keys and values are unknown.
+ */
+type RawShape = { [key: PropertyKey]: unknown };
+
+/**
+ * Represents an object shape where each key is mapped to a schema.
+ * @template T - The raw object shape.
+ */
+type ObjectShape<T extends RawShape> = { [K in keyof T]: Schema<T[K]> };
+
+/**
+ * Represents an object shape as passed to `object()` and `extend()`, where each key is mapped to a razr schema or any
+ * other Standard Schema.
+ * @template T - The raw object shape.
+ */
+type StandardShape<T extends RawShape> = {
+  [K in keyof T]: StandardSchemaV1<unknown, T[K]>;
+};
+
+/**
+ * Adapts the Standard Schemas of a shape that are not razr schemas.
+ * @template T - The raw object shape.
+ * @param shape - The shape to adapt.
+ * @returns A shape of razr schemas.
+ */
+function toObjectShape<T extends RawShape>(
+  shape: StandardShape<T>,
+): ObjectShape<T> {
+  // A null prototype keeps a `__proto__` key from replacing the prototype where the accessor exists.
+  const result = Object.create(null) as { [key: PropertyKey]: Schema };
+  for (const key in shape) result[key] = toSchema(shape[key]);
+  return result as ObjectShape<T>;
+}
+
+/**
+ * Determines how an object schema treats keys that are not part of its shape.
+ *
+ * - `"strip"`: Unknown keys are silently dropped from the output.
+ * - `"strict"`: Every unknown key is reported as an issue.
+ * - `"passthrough"`: Unknown keys are copied to the output without validation.
+ * - `"catchall"`: Unknown keys are validated against the `catchall` schema and copied to the output.
+ */
+export type UnknownKeys = "strip" | "strict" | "passthrough" | "catchall";
+
+/**
+ * Computes the output type of an object schema, adding an index signature for the unknown keys it keeps.
+ * @template T - The raw object shape.
+ * @template TRest - The type of the unknown keys, or `never` if they are not kept.
+ */
+export type ObjectOutput<T extends RawShape, TRest> = [TRest] extends [never]
+  ? T
+  : T & { [key: string]: TRest };
+
+/**
+ * Represents a schema for validating and transforming objects.
+ * @template TOutput - The type of the output object after successful validation.
+ * @template TInput - The type of the input data.
+ * @template TRest - The type of the unknown keys kept in the output, or `never` if they are not kept.
+ */
+export interface ObjectSchema<
+  TOutput extends RawShape,
+  TInput = unknown,
+  TRest = never,
+> extends Schema<ObjectOutput<TOutput, TRest>, TInput> {
+  /**
+   * The shape of the object, where each key is mapped to a schema.
+   */
+  shape: ObjectShape<TOutput>;
+
+  /**
+   * How keys that are not part of the shape are treated.
+   */
+  readonly unknownKeys: UnknownKeys;
+
+  /**
+   * The schema unknown keys are validated against when `unknownKeys` is `"catchall"`.
+   */
+  readonly catchall?: Schema<TRest>;
+}
+
+/**
+ * The error messages of an object schema.
+ */
+interface ObjectMessages {
+  /**
+   * The error message to return if the input is not an object.
+   */
+  readonly message?: string;
+
+  /**
+   * The error message to report for each unknown key under the `"strict"` policy.
+   */
+  readonly unknownKeyMessage?: string;
+}
+
+/**
+ * The error messages of every object schema, kept so that schemas derived from it (see `strict()`, `passthrough()`
+ * and `catchall()`) report the same messages.
+ */
+const objectMessages = new WeakMap<Schema, ObjectMessages>();
+
+/**
+ * Returns the error messages of an object schema.
+ * @param schema - The object schema.
+ * @returns The messages the schema was created with.
+ */
+function getObjectMessages(
+  schema: ObjectSchema<RawShape, unknown, unknown>,
+): ObjectMessages {
+  return objectMessages.get(schema) ?? {};
+}
+
+/**
+ * Creates an object schema with the given unknown key policy.
+ * @template T - The raw object shape.
+ * @template TRest - The type of the unknown keys kept in the output.
+ * @param shape - The shape of the object, where each key is mapped to a schema.
+ * @param unknownKeys - How keys that are not part of the shape are treated.
+ * @param catchall - The schema unknown keys are validated against under the `"catchall"` policy.
+ * @param messages - The error messages of the schema.
+ * @returns A schema that validates object inputs.
+ */
+function createObjectSchema<T extends RawShape, TRest = never>(
+  shape: ObjectShape<T>,
+  unknownKeys: UnknownKeys,
+  catchall: Schema<TRest> | undefined,
+  messages: ObjectMessages,
+): ObjectSchema<T, unknown, TRest> {
+  type Output = ObjectOutput<T, TRest>;
+  const { message, unknownKeyMessage } = messages;
+  const shapeKeys = Object.keys(shape);
+  const known = "strip" === unknownKeys ? undefined : new Set(shapeKeys);
+  const schema: ObjectSchema<T, unknown, TRest> = createSchema<
+    Output,
+    unknown,
+    {
+      shape: ObjectShape<T>;
+      unknownKeys: UnknownKeys;
+      catchall?: Schema<TRest>;
+    }
+  >(
+    "object",
+    (input, options) => {
+      if (!isObject(input)) {
+        return invalidType("object", input, options, message);
+      }
+      const keys: string[] = known
+        ? [...shapeKeys, ...Object.keys(input).filter((key) => !known.has(key))]
+        : shapeKeys;
+      return validateEntries(
+        keys.length,
+        (i) => keys[i],
+        (i) => {
+          const key = keys[i];
+          if (i < shapeKeys.length) {
+            return shape[key]["~validate"](input[key], options);
+          }
+          if (catchall) return catchall["~validate"](input[key], options);
+          if ("passthrough" === unknownKeys) return { value: input[key] };
+          return {
+            issues: [
+              createIssue(
+                "unrecognized_key",
+                { key },
+                input[key],
+                options,
+                unknownKeyMessage,
+              ),
+            ],
+          };
+        },
+        options,
+        (values) => {
+          const value = Object.create(null) as { [key: string]: unknown };
+          for (let i = 0; i < keys.length; i++) value[keys[i]] = values[i];
+          return { value: value as Output };
+        },
+      );
+    },
+    { shape, unknownKeys, ...(catchall && { catchall }) },
+  );
+  objectMessages.set(
+    schema as ObjectSchema<RawShape, unknown, unknown>,
+    messages,
+  );
+  return schema;
+}
+
+/**
+ * Creates a schema that validates if the input is an object and validates each property using the provided shape.
+ * Keys that are not part of the shape are dropped from the output; see `strict()`, `passthrough()` and `catchall()`
+ * for other policies.
+ * @template T - The raw object shape.
+ * @param shape - The shape of the object, where each key is mapped to a schema.
+ * @param message - The error message to return if validation fails.
  * @returns A schema that validates object inputs.
  */
-export function object<T extends RawShape>(
-  shape: ObjectShape<T>,
-  message = "Expected object",
-): ObjectSchema<T> {
-  return {
-    shape,
-    ...createSchema<T>((input) => {
-      if (!isObject(input)) return { issues: [{ message }] };
-      const value = Object.create(null) as T;
-      for (const key in shape) {
-        const result = shape[key].safeParse(input[key]);
-        if (result.issues) {
-          return { issues: prependKeyToIssues(key, result.issues) };
+export function object<T extends RawShape>(
+  shape: StandardShape<T>,
+  message?: string,
+): ObjectSchema<T> {
+  return createObjectSchema(toObjectShape(shape), "strip", undefined, {
+    message,
+  });
+}
+
+/**
+ * Creates a copy of an object schema that reports every key that is not part of its shape as an issue.
+ * @template T - The raw object shape.
+ * @param schema - The object schema to copy.
+ * @param message - The error message to report for each unknown key.
+ * @returns A new object schema with the `"strict"` policy.
+ */
+export function strict<T extends RawShape>(
+  schema: ObjectSchema<T, unknown, unknown>,
+  message?: string,
+): ObjectSchema<T> {
+  return createObjectSchema(schema.shape, "strict", undefined, {
+    ...getObjectMessages(schema),
+    unknownKeyMessage: message,
+  });
+}
+
+/**
+ * Creates a copy of an object schema that copies keys that are not part of its shape to the output without validation.
+ * @template T - The raw object shape.
+ * @param schema - The object schema to copy.
+ * @returns A new object schema with the `"passthrough"` policy.
+ */
+export function passthrough<T extends RawShape>(
+  schema: ObjectSchema<T, unknown, unknown>,
+): ObjectSchema<T, unknown, unknown> {
+  return createObjectSchema<T, unknown>(
+    schema.shape,
+    "passthrough",
+    undefined,
+    getObjectMessages(schema),
+  );
+}
+
+/**
+ * Creates a copy of an object schema that validates keys that are not part of its shape against the given schema
+ * and copies them to the output.
+ * @template T - The raw object shape.
+ * @template S - The schema for unknown keys.
+ * @param schema - The object schema to copy.
+ * @param rest - The schema every unknown key is validated against.
+ * @returns A new object schema with the `"catchall"` policy.
+ */
+export function catchall<T extends RawShape, S extends StandardSchemaV1>(
+  schema: ObjectSchema<T, unknown, unknown>,
+  rest: S,
+): ObjectSchema<T, unknown, InferOutput<S>> {
+  return createObjectSchema<T, InferOutput<S>>(
+    schema.shape,
+    "catchall",
+    toSchema(rest) as Schema<InferOutput<S>>,
+    getObjectMessages(schema),
+  );
+}
+
+/**
+ * Merges two object types, with the keys of `B` taking precedence over those of `A`.
+ * @template A - The base object type.
+ * @template B - The object type whose keys take precedence.
+ */
+export type Merge<A extends RawShape, B extends RawShape> = {
+  [K in keyof A | keyof B]: K extends keyof B ? B[K]
+    : K extends keyof A ? A[K]
+    : never;
+};
+
+/**
+ * The types `DeepPartial` does not recurse into.
+ */
+type Leaf =
+  | readonly unknown[]
+  | Date
+  | Blob
+  | Map<unknown, unknown>
+  | Set<unknown>
+  | ((...args: never[]) => unknown);
+
+/**
+ * Makes every key of an object type optional, recursing into nested plain objects.
+ * @template T - The object type.
+ */
+export type DeepPartial<T> = T extends Leaf ? T
+  : T extends RawShape ? { [K in keyof T]?: DeepPartial<T[K]> }
+  : T;
+
+/**
+ * Creates an object schema with a new shape and the unknown key policy and messages of an existing one.
+ * @template T - The new raw object shape.
+ * @template TRest - The type of the unknown keys kept in the output.
+ * @param schema - The object schema to take the policy and messages from.
+ * @param shape - The new shape.
+ * @returns A new object schema.
+ */
+function deriveObjectSchema<T extends RawShape, TRest>(
+  schema: ObjectSchema<RawShape, unknown, TRest>,
+  shape: { [key: PropertyKey]: Schema },
+): ObjectSchema<T, unknown, TRest> {
+  return createObjectSchema<T, TRest>(
+    shape as ObjectShape<T>,
+    schema.unknownKeys,
+    schema.catchall,
+    getObjectMessages(schema as ObjectSchema<RawShape, unknown, unknown>),
+  );
+}
+
+/**
+ * Creates a copy of an object schema with additional keys. Keys that already exist are replaced.
+ * @template T - The raw object shape of the base schema.
+ * @template U - The raw object shape of the additional keys.
+ * @template TRest - The type of the unknown keys kept in the output.
+ * @param schema - The object schema to extend.
+ * @param shape - The additional keys, where each key is mapped to a schema.
+ * @returns A new object schema with the keys of both.
+ */
+export function extend<T extends RawShape, U extends RawShape, TRest = never>(
+  schema: ObjectSchema<T, unknown, TRest>,
+  shape: StandardShape<U>,
+): ObjectSchema<Merge<T, U>, unknown, TRest> {
+  return deriveObjectSchema(schema, {
+    ...schema.shape,
+    ...toObjectShape(shape),
+  });
+}
+
+/**
+ * Merges two object schemas. Keys of the second schema replace those of the first, and the unknown key policy and
+ * messages are taken from the second schema.
+ * @template A - The raw object shape of the first schema.
+ * @template B - The raw object shape of the second schema.
+ * @template TRest - The type of the unknown keys kept in the output of the second schema.
+ * @param a - The first object schema.
+ * @param b - The second object schema.
+ * @returns A new object schema with the keys of both.
+ */
+export function merge<A extends RawShape, B extends RawShape, TRest = never>(
+  a: ObjectSchema<A, unknown, unknown>,
+  b: ObjectSchema<B, unknown, TRest>,
+): ObjectSchema<Merge<A, B>, unknown, TRest> {
+  return deriveObjectSchema(b, { ...a.shape, ...b.shape });
+}
+
+/**
+ * Creates a copy of an object schema with only the given keys.
+ * @template T - The raw object shape.
+ * @template K - The keys to keep.
+ * @template TRest - The type of the unknown keys kept in the output.
+ * @param schema - The object schema to copy.
+ * @param keys - The keys to keep.
+ * @returns A new object schema with only the given keys.
+ */
+export function pick<
+  T extends RawShape,
+  const K extends keyof T,
+  TRest = never,
+>(
+  schema: ObjectSchema<T, unknown, TRest>,
+  keys: readonly K[],
+): ObjectSchema<Pick<T, K>, unknown, TRest> {
+  const shape: { [key: PropertyKey]: Schema } = {};
+  for (const key of keys) {
+    if (Object.hasOwn(schema.shape, key)) shape[key] = schema.shape[key];
+  }
+  return deriveObjectSchema(schema, shape);
+}
+
+/**
+ * Creates a copy of an object schema without the given keys.
+ * @template T - The raw object shape.
+ * @template K - The keys to remove.
+ * @template TRest - The type of the unknown keys kept in the output.
+ * @param schema - The object schema to copy.
+ * @param keys - The keys to remove.
+ * @returns A new object schema without the given keys.
+ */
+export function omit<
+  T extends RawShape,
+  const K extends keyof T,
+  TRest = never,
+>(
+  schema: ObjectSchema<T, unknown, TRest>,
+  keys: readonly K[],
+): ObjectSchema<Omit<T, K>, unknown, TRest> {
+  const shape: { [key: PropertyKey]: Schema } = { ...schema.shape };
+  for (const key of keys) delete shape[key];
+  return deriveObjectSchema(schema, shape);
+}
+
+/**
+ * Checks if the given schema is an object schema.
+ * @param schema - The schema to check.
+ * @returns True if the schema was created by `object()` or derived from an object schema.
+ */
+function isObjectSchema(
+  schema: Schema,
+): schema is ObjectSchema<RawShape, unknown, unknown> {
+  return objectMessages.has(schema as ObjectSchema<RawShape, unknown, unknown>);
+}
+
+/**
+ * Creates a copy of an object schema where every key may be `null` or `undefined`, as if wrapped in `maybe()`.
+ * @template T - The raw object shape.
+ * @template TRest - The type of the unknown keys kept in the output.
+ * @param schema - The object schema to copy.
+ * @param options - Set `deep` to also make the keys of nested object schemas optional, including those wrapped in
+ *   `maybe()` or `defaulted()`.
+ * @returns A new object schema with every key optional.
+ */
+export function partial<T extends RawShape, TRest = never>(
+  schema: ObjectSchema<T, unknown, TRest>,
+  options?: { readonly deep?: false },
+): ObjectSchema<{ [K in keyof T]?: T[K] }, unknown, TRest>;
+export function partial<T extends RawShape, TRest = never>(
+  schema: ObjectSchema<T, unknown, TRest>,
+  options: { readonly deep: true },
+): ObjectSchema<DeepPartial<T>, unknown, TRest>;
+export function partial<T extends RawShape, TRest = never>(
+  schema: ObjectSchema<T, unknown, TRest>,
+  options: { readonly deep?: boolean } = {},
+): ObjectSchema<RawShape, unknown, TRest> {
+  const shape: { [key: PropertyKey]: Schema } = {};
+  for (const key in schema.shape) {
+    const value: Schema = schema.shape[key];
+    shape[key] = maybe(options.deep ? deepPartial(value) : value);
+  }
+  return deriveObjectSchema(schema, shape);
+}
+
+/**
+ * Makes the keys of an object schema optional for `partial(..., { deep: true })`, looking through `maybe()` and
+ * `defaulted()` like `DeepPartial` does.
+ * @param schema - The schema of a key.
+ * @returns The schema with the keys of the object schema it holds made optional, or the schema itself.
+ */
+function deepPartial(schema: Schema): Schema {
+  if (isObjectSchema(schema)) return partial(schema, { deep: true });
+  if ("maybe" === schema.kind) {
+    return maybe(deepPartial((schema as WrapperSchema<Schema>).wrapped));
+  }
+  if ("defaulted" === schema.kind) {
+    const { wrapped, default: defaultValue } = schema as DefaultedSchema<
+      Schema
+    >;
+    return defaulted(deepPartial(wrapped), defaultValue);
+  }
+  return schema;
+}
+
+/**
+ * Creates a copy of an object schema where every key must be present, rejecting `null` and `undefined` before the
+ * key's own schema (including `maybe()` and `defaulted()`) runs.
+ * @template T - The raw object shape.
+ * @template TRest - The type of the unknown keys kept in the output.
+ * @param schema - The object schema to copy.
+ * @param message - The error message to report for each missing key.
+ * @returns A new object schema with every key required.
+ */
+export function required<T extends RawShape, TRest = never>(
+  schema: ObjectSchema<T, unknown, TRest>,
+  message?: string,
+): ObjectSchema<
+  { [K in keyof T]-?: Exclude<T[K], undefined> },
+  unknown,
+  TRest
+> {
+  const shape: { [key: PropertyKey]: Schema } = {};
+  for (const key in schema.shape) {
+    const value: Schema = schema.shape[key];
+    shape[key] = createSchema<unknown, unknown, { wrapped: Schema }>(
+      "required",
+      (input, options) => {
+        if (null === input || undefined === input) {
+          return {
+            issues: [createIssue("required", {}, input, options, message)],
+          };
         }
-        value[key] = result.value;
-      }
-      return { value };
-    }),
-  };
+        return value["~validate"](input, options);
+      },
+      { wrapped: value },
+    );
+  }
+  return deriveObjectSchema(schema, shape);
 }
 
 /**
@@ -243,13 +2877,33 @@ export function object<T extends RawShape>(
  * @param schema - The schema used to validate the input if it is not `null` or `undefined`.
  * @returns A schema that validates inputs that can be `null`, `undefined`, or match the provided schema.
  */
-export function maybe<T extends Schema>(
+export function maybe<T extends StandardSchemaV1>(
   schema: T,
-): Schema<InferOutput<T> | undefined> {
-  return createSchema<InferOutput<T> | undefined>((value) => {
-    if (null === value || undefined === value) return { value: undefined };
-    return schema.safeParse(value);
-  });
+): WrapperSchema<AsSchema<T>, InferOutput<T> | undefined> {
+  const wrapped = toSchema(schema);
+  return createSchema<
+    InferOutput<T> | undefined,
+    unknown,
+    { wrapped: AsSchema<T> }
+  >(
+    "maybe",
+    (value, options) => {
+      if (null === value || undefined === value) return { value: undefined };
+      return wrapped["~validate"](value, options);
+    },
+    { wrapped },
+  );
+}
+
+/**
+ * Represents a schema that provides a default value if the input is `null` or `undefined`.
+ * @template T - The wrapped schema type.
+ */
+export interface DefaultedSchema<T extends Schema> extends WrapperSchema<T> {
+  /**
+   * The value used if the input is `null` or `undefined`.
+   */
+  readonly default: InferOutput<T>;
 }
 
 /**
@@ -259,29 +2913,773 @@ export function maybe<T extends Schema>(
  * @param defaultValue - The default value to use if the input is `null` or `undefined`.
  * @returns A schema that validates inputs and provides a default value if necessary.
  */
-export function defaulted<T extends Schema>(
+export function defaulted<T extends StandardSchemaV1>(
   schema: T,
   defaultValue: InferOutput<T>,
-): Schema<InferOutput<T>> {
-  return createSchema<InferOutput<T>>((value) => {
-    if (null === value || undefined === value) return { value: defaultValue };
-    return schema.safeParse(value);
-  });
+): DefaultedSchema<AsSchema<T>> {
+  const wrapped = toSchema(schema);
+  return createSchema<
+    InferOutput<T>,
+    unknown,
+    { wrapped: AsSchema<T>; default: InferOutput<T> }
+  >(
+    "defaulted",
+    (value, options) => {
+      if (null === value || undefined === value) return { value: defaultValue };
+      return wrapped["~validate"](value, options);
+    },
+    { wrapped, default: defaultValue },
+  );
+}
+
+/**
+ * The primitive types a literal schema can match.
+ */
+export type Literal = string | number | boolean | null;
+
+/**
+ * Represents a schema that matches a single literal value.
+ * @template T - The literal type.
+ */
+export interface LiteralSchema<T extends Literal> extends Schema<T> {
+  /**
+   * The literal value the schema matches.
+   */
+  readonly value: T;
 }
 
 /**
  * Creates a schema that validates if the input matches a literal value.
  * @template T - The literal type (`string`, `number`, `boolean`, or `null`).
  * @param {T} constant - The literal value to validate against.
- * @param {string} [message="Expected a literal value"] - The error message to return if validation fails.
- * @returns {Schema<T>} A schema that validates inputs matching the literal value.
+ * @param {string} [message] - The error message to return if validation fails.
+ * @returns {LiteralSchema<T>} A schema that validates inputs matching the literal value.
  */
-export function literal<const T extends string | number | boolean | null>(
+export function literal<const T extends Literal>(
   constant: T,
-  message: string = "Expected literal value",
-): Schema<T> {
-  return createSchema<T>((value) => {
-    if (value === constant) return { value: constant };
-    return { issues: [{ message }] };
+  message?: string,
+): LiteralSchema<T> {
+  return createSchema<T, unknown, { value: T }>(
+    "literal",
+    (value, options) => {
+      if (value === constant) return { value: constant };
+      const params = { expected: constant };
+      return {
+        issues: [
+          createIssue("invalid_literal", params, value, options, message),
+        ],
+      };
+    },
+    { value: constant },
+  );
+}
+
+/**
+ * Represents a schema that matches one of a list of allowed values.
+ * @template T - The type of the allowed values.
+ */
+export interface PicklistSchema<T extends string | number> extends Schema<T> {
+  /**
+   * The allowed values, in order (e.g. for building a dropdown).
+   */
+  readonly options: readonly T[];
+}
+
+/**
+ * Creates a schema that matches one of a list of allowed values, reporting the allowed values in the issue.
+ * @param kind - The kind of the schema.
+ * @param options - The allowed values.
+ * @param message - The error message to return if validation fails.
+ * @param props - Additional properties exposed on the schema.
+ * @returns A schema that validates inputs matching one of the allowed values.
+ */
+function createPicklist<
+  T extends string | number,
+  TProps extends object = Record<never, never>,
+>(
+  kind: SchemaKind,
+  options: readonly T[],
+  message: string | undefined,
+  props?: TProps,
+): PicklistSchema<T> & TProps {
+  const allowed = new Set<unknown>(options);
+  return createSchema<T, unknown, { options: readonly T[] } & TProps>(
+    kind,
+    (value, parseOptions) => {
+      if (allowed.has(value)) return { value: value as T };
+      const params = { options };
+      return {
+        issues: [
+          createIssue("invalid_option", params, value, parseOptions, message),
+        ],
+      };
+    },
+    { ...props as TProps, options },
+  );
+}
+
+/**
+ * Creates a schema that matches one of the given values, inferring their union as the output type.
+ * @template T - The tuple of allowed values.
+ * @param options - The allowed values.
+ * @param message - The error message to return if validation fails.
+ * @returns A schema that validates inputs matching one of the allowed values.
+ */
+export function picklist<const T extends readonly (string | number)[]>(
+  options: T,
+  message?: string,
+): PicklistSchema<T[number]> {
+  return createPicklist("picklist", options, message);
+}
+
+/**
+ * A TypeScript enum, or an object used as one (`{ Draft: "draft", ... } as const`).
+ */
+export type EnumLike = { readonly [key: string]: string | number };
+
+/**
+ * Represents a schema that matches the values of a TypeScript enum.
+ * @template T - The enum type.
+ */
+export interface NativeEnumSchema<T extends EnumLike>
+  extends PicklistSchema<T[keyof T]> {
+  /**
+   * The enum the schema was created from.
+   */
+  readonly enum: T;
+}
+
+/**
+ * Creates a schema that matches the values of a TypeScript enum. The reverse mappings TypeScript adds to numeric
+ * enums (`Enum[0] === "A"`) are not accepted.
+ * @template T - The enum type.
+ * @param enumObject - The enum.
+ * @param message - The error message to return if validation fails.
+ * @returns A schema that validates inputs matching one of the enum values.
+ */
+export function nativeEnum<const T extends EnumLike>(
+  enumObject: T,
+  message?: string,
+): NativeEnumSchema<T> {
+  // Numeric enums also map each value back to its name, e.g. `{ Up: 0, "0": "Up" }`; skip those entries.
+  const isReverseMapping = (key: string) => {
+    const name = enumObject[key];
+    return "string" === typeof name && "number" === typeof enumObject[name] &&
+      String(enumObject[name]) === key;
+  };
+  const options = Object.keys(enumObject)
+    .filter((key) => !isReverseMapping(key))
+    .map((key) => enumObject[key] as T[keyof T]);
+  return createPicklist("native_enum", options, message, {
+    enum: enumObject,
   });
 }
+
+/**
+ * Represents a schema that matches any of the given member schemas.
+ * @template T - The tuple of member schemas.
+ */
+export interface UnionSchema<T extends readonly Schema[]>
+  extends Schema<InferOutput<T[number]>> {
+  /**
+   * The member schemas, in the order they are tried.
+   */
+  readonly options: T;
+}
+
+/**
+ * Creates a schema that validates if the input matches at least one of the given schemas.
+ * Members are tried in order and the output of the first one that succeeds is returned.
+ * If no member matches, the issues of every member are merged into a single list.
+ * @template T - The tuple of member schemas.
+ * @param options - The schemas to try, in order.
+ * @returns A schema that validates inputs matching any of the member schemas.
+ */
+export function union<const T extends readonly StandardSchemaV1[]>(
+  members: T,
+): UnionSchema<AsSchemas<T>> {
+  const options = members.map(toSchema) as AsSchemas<T>;
+  return createSchema<
+    InferOutput<T[number]>,
+    unknown,
+    { options: AsSchemas<T> }
+  >(
+    "union",
+    (input, parseOptions) => {
+      type Output = Result<InferOutput<T[number]>>;
+      const tryFrom = (
+        start: number,
+        issues: Issue[],
+      ): MaybePromise<Output> => {
+        for (let i = start; i < options.length; i++) {
+          const result = options[i]["~validate"](input, parseOptions);
+          if (result instanceof Promise) {
+            return result.then((result) => {
+              if (!result.issues) return result as Output;
+              return tryFrom(i + 1, [...issues, ...result.issues]);
+            });
+          }
+          if (!result.issues) return result as Output;
+          issues.push(...result.issues);
+        }
+        return { issues };
+      };
+      return tryFrom(0, []);
+    },
+    { options },
+  );
+}
+
+/**
+ * Represents an object schema that can act as a member of a discriminated union.
+ * @template K - The discriminator key.
+ */
+type DiscriminatedOption<K extends string> = ObjectSchema<
+  { [P in K]: Literal } & RawShape
+>;
+
+/**
+ * Represents a schema that dispatches to one of several object schemas based on a discriminator key.
+ * @template K - The discriminator key.
+ * @template T - The tuple of member object schemas.
+ */
+export interface DiscriminatedUnionSchema<
+  K extends string,
+  T extends readonly DiscriminatedOption<K>[],
+> extends Schema<InferOutput<T[number]>> {
+  /**
+   * The key whose literal value selects the member schema.
+   */
+  readonly key: K;
+
+  /**
+   * The member object schemas.
+   */
+  readonly options: T;
+}
+
+/**
+ * Creates a schema that validates an object by selecting a member schema based on the value of a discriminator key.
+ * Each member must be an object schema whose `shape[key]` is a `literal()` schema with a unique value.
+ * @template K - The discriminator key.
+ * @template T - The tuple of member object schemas.
+ * @param key - The key whose value selects the member schema.
+ * @param options - The member object schemas.
+ * @param message - The error message to return if the discriminator does not match any member.
+ * @returns A schema that validates inputs matching the member selected by the discriminator.
+ * @throws {TypeError} If a member does not define a literal discriminator, or if two members share the same value.
+ */
+export function discriminatedUnion<
+  const K extends string,
+  const T extends readonly DiscriminatedOption<K>[],
+>(
+  key: K,
+  options: T,
+  message?: string,
+): DiscriminatedUnionSchema<K, T> {
+  const lookup = new Map<Literal, T[number]>();
+  for (const option of options) {
+    const discriminator = option.shape[key] as Schema;
+    if (!("value" in discriminator)) {
+      throw new TypeError(`Expected "${key}" to be a literal schema`);
+    }
+    const value = (discriminator as LiteralSchema<Literal>).value;
+    if (lookup.has(value)) {
+      throw new TypeError(`Duplicate discriminator value: ${String(value)}`);
+    }
+    lookup.set(value, option);
+  }
+
+  return createSchema<InferOutput<T[number]>, unknown, { key: K; options: T }>(
+    "discriminated_union",
+    (input, parseOptions) => {
+      if (!isObject(input)) return invalidType("object", input, parseOptions);
+      const option = lookup.get(input[key] as Literal);
+      if (!option) {
+        const params = { key, options: [...lookup.keys()] };
+        const issue = createIssue(
+          "invalid_discriminator",
+          params,
+          input[key],
+          parseOptions,
+          message,
+        );
+        return { issues: [{ ...issue, path: [key] }] };
+      }
+      return option["~validate"](input, parseOptions) as MaybePromise<
+        Result<InferOutput<T[number]>>
+      >;
+    },
+    { key, options },
+  );
+}
+
+/**
+ * Represents a schema that validates the input with one schema and feeds its output into another.
+ * @template A - The first schema, which receives the raw input.
+ * @template B - The second schema, which receives the output of the first.
+ */
+export interface PipeSchema<A extends Schema, B extends Schema>
+  extends Schema<InferOutput<B>, InferInput<A>> {
+  /**
+   * The schema that validates the raw input.
+   */
+  readonly first: A;
+
+  /**
+   * The schema that validates the output of the first schema.
+   */
+  readonly second: B;
+}
+
+/**
+ * Creates a schema that validates the input with the first schema and feeds its output into the second.
+ * @template A - The first schema, which receives the raw input.
+ * @template B - The second schema, which receives the output of the first.
+ * @param first - The schema that validates the raw input.
+ * @param second - The schema that validates the output of the first schema.
+ * @returns A schema with the input type of `first` and the output type of `second`.
+ */
+export function pipe<A extends StandardSchemaV1, B extends StandardSchemaV1>(
+  firstSchema: A,
+  secondSchema: B,
+): PipeSchema<AsSchema<A>, AsSchema<B>> {
+  const first = toSchema(firstSchema);
+  const second = toSchema(secondSchema);
+  return createSchema<
+    InferOutput<B>,
+    InferInput<A>,
+    { first: AsSchema<A>; second: AsSchema<B> }
+  >(
+    "pipe",
+    (input, options) => {
+      return then(first["~validate"](input, options), (result) => {
+        if (result.issues) return result;
+        return second["~validate"](result.value, options) as MaybePromise<
+          Result<InferOutput<B>>
+        >;
+      });
+    },
+    { first, second },
+  );
+}
+
+/**
+ * Represents a schema that validates the input with two schemas and merges their outputs.
+ * @template A - The first schema.
+ * @template B - The second schema.
+ */
+export interface IntersectionSchema<A extends Schema, B extends Schema>
+  extends Schema<InferOutput<A> & InferOutput<B>> {
+  /**
+   * The first schema the input is validated against.
+   */
+  readonly first: A;
+
+  /**
+   * The second schema the input is validated against.
+   */
+  readonly second: B;
+}
+
+/**
+ * Returned by `mergeOutputs()` when two outputs cannot be merged.
+ */
+const UNMERGEABLE = Symbol("unmergeable");
+
+/**
+ * Merges the outputs of the two schemas of an intersection. Plain objects are merged key by key and arrays item by
+ * item, while other values must be equal.
+ * @param a - The output of the first schema.
+ * @param b - The output of the second schema.
+ * @returns The merged output, or `UNMERGEABLE` if the outputs conflict.
+ */
+function mergeOutputs(a: unknown, b: unknown): unknown {
+  if (Object.is(a, b)) return a;
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime() ? a : UNMERGEABLE;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    if (a.length !== b.length) return UNMERGEABLE;
+    const merged = new Array<unknown>(a.length);
+    for (let i = 0; i < a.length; i++) {
+      merged[i] = mergeOutputs(a[i], b[i]);
+      if (UNMERGEABLE === merged[i]) return UNMERGEABLE;
+    }
+    return merged;
+  }
+  if (isObject(a) && isObject(b)) {
+    const merged = Object.create(null) as { [key: string]: unknown };
+    for (const key in a) merged[key] = a[key];
+    for (const key in b) {
+      merged[key] = key in a ? mergeOutputs(a[key], b[key]) : b[key];
+      if (UNMERGEABLE === merged[key]) return UNMERGEABLE;
+    }
+    return merged;
+  }
+  return UNMERGEABLE;
+}
+
+/**
+ * Creates a schema that validates the input with both schemas, e.g. to combine object schemas wrapped in
+ * `refine()` or `lazy()` that `merge()` does not accept. Issues of both schemas are reported, and their outputs are
+ * merged: keys stripped by one object schema are kept if the other one validated them.
+ * @template A - The first schema.
+ * @template B - The second schema.
+ * @param firstSchema - The first schema the input is validated against.
+ * @param secondSchema - The second schema the input is validated against.
+ * @param message - The error message to return if the outputs conflict, e.g. a key transformed differently by each.
+ * @returns A schema whose output has the types of both outputs.
+ */
+export function intersect<
+  A extends StandardSchemaV1,
+  B extends StandardSchemaV1,
+>(
+  firstSchema: A,
+  secondSchema: B,
+  message?: string,
+): IntersectionSchema<AsSchema<A>, AsSchema<B>> {
+  const first = toSchema(firstSchema);
+  const second = toSchema(secondSchema);
+  return createSchema<
+    InferOutput<A> & InferOutput<B>,
+    unknown,
+    { first: AsSchema<A>; second: AsSchema<B> }
+  >(
+    "intersection",
+    (input, options) => {
+      return then(first["~validate"](input, options), (a) => {
+        if (a.issues && shouldAbort(options)) return a;
+        return then(second["~validate"](input, options), (b) => {
+          if (a.issues || b.issues) {
+            return { issues: [...a.issues ?? [], ...b.issues ?? []] };
+          }
+          const value = mergeOutputs(a.value, b.value);
+          if (UNMERGEABLE === value) {
+            return {
+              issues: [
+                createIssue(
+                  "invalid_intersection",
+                  {},
+                  input,
+                  options,
+                  message,
+                ),
+              ],
+            };
+          }
+          return { value: value as InferOutput<A> & InferOutput<B> };
+        });
+      });
+    },
+    { first, second },
+  );
+}
+
+/**
+ * The key of the nominal tag added by `Brand`. It only exists at the type level.
+ */
+declare const BRAND: unique symbol;
+
+/**
+ * Tags a type with a nominal brand, so that values of the same underlying type but different brands cannot be
+ * mixed, e.g. `string & Brand<"UserId">` is not assignable to `string & Brand<"OrderId">`.
+ * @template B - The name of the brand.
+ */
+export interface Brand<B extends string | symbol> {
+  readonly [BRAND]: { readonly [K in B]: true };
+}
+
+/**
+ * Represents a schema whose output is tagged with a nominal brand.
+ * @template T - The wrapped schema type.
+ * @template B - The name of the brand.
+ */
+export interface BrandedSchema<T extends Schema, B extends string | symbol>
+  extends WrapperSchema<T, InferOutput<T> & Brand<B>, InferInput<T>> {
+  /**
+   * The name of the brand.
+   */
+  readonly brand: B;
+}
+
+/**
+ * Creates a schema that tags the output of the given schema with a nominal brand. Validation is unchanged: the brand
+ * only exists at the type level, so that values can only be obtained by parsing them (or by an explicit cast).
+ *
+ * ```ts
+ * const userId = brand(string(uuid()), "UserId");
+ * type UserId = InferOutput<typeof userId>; // string & Brand<"UserId">
+ * ```
+ *
+ * @template T - The schema type.
+ * @template B - The name of the brand.
+ * @param schema - The schema whose output is branded.
+ * @param name - The name of the brand.
+ * @returns A schema with a branded output type.
+ */
+export function brand<T extends StandardSchemaV1, B extends string | symbol>(
+  schema: T,
+  name: B,
+): BrandedSchema<AsSchema<T>, B> {
+  const wrapped = toSchema(schema);
+  return createSchema<
+    InferOutput<T> & Brand<B>,
+    InferInput<T>,
+    { wrapped: AsSchema<T>; brand: B }
+  >(
+    "brand",
+    (input, options) =>
+      wrapped["~validate"](input, options) as MaybePromise<
+        Result<InferOutput<T> & Brand<B>>
+      >,
+    { wrapped, brand: name },
+  );
+}
+
+/**
+ * The primitive types, which `DeepReadonly` leaves unchanged.
+ */
+type Primitive =
+  | string
+  | number
+  | bigint
+  | boolean
+  | symbol
+  | null
+  | undefined;
+
+/**
+ * Makes every property, item and entry of a type readonly, recursively. Dates, blobs, functions and branded
+ * primitives are left unchanged.
+ * @template T - The type to make readonly.
+ */
+export type DeepReadonly<T> = T extends
+  Primitive | Date | Blob | ((...args: never[]) => unknown) ? T
+  : T extends ReadonlyMap<infer K, infer V>
+    ? ReadonlyMap<DeepReadonly<K>, DeepReadonly<V>>
+  : T extends ReadonlySet<infer U> ? ReadonlySet<DeepReadonly<U>>
+  : { readonly [K in keyof T]: DeepReadonly<T[K]> };
+
+/**
+ * Returns a frozen copy of a value and the plain objects, arrays, maps and sets it contains, recursively. Copying
+ * keeps the caller's own objects, which `unknown()` and passthrough keys hand back unchanged, from being frozen. The
+ * entries of maps and sets are frozen, but the maps and sets themselves cannot be made immutable at runtime.
+ * @template T - The type of the value.
+ * @param value - The value to freeze.
+ * @param copies - The copies already made, so that shared and circular references are copied once.
+ * @returns The frozen copy, or the value itself if it is not a plain object, array, map or set.
+ */
+function deepFreeze<T>(value: T, copies = new WeakMap<object, unknown>()): T {
+  if ("object" !== typeof value || null === value) return value;
+  if (copies.has(value)) return copies.get(value) as T;
+  if (Array.isArray(value)) {
+    const copy: unknown[] = [];
+    copies.set(value, copy);
+    for (const item of value) copy.push(deepFreeze(item, copies));
+    return Object.freeze(copy) as T;
+  }
+  if (isObject(value)) {
+    const copy = Object.create(Object.getPrototypeOf(value));
+    copies.set(value, copy);
+    for (const key of Reflect.ownKeys(value)) {
+      const descriptor = Object.getOwnPropertyDescriptor(value, key)!;
+      if ("value" in descriptor) {
+        descriptor.value = deepFreeze(descriptor.value, copies);
+      }
+      Object.defineProperty(copy, key, descriptor);
+    }
+    return Object.freeze(copy);
+  }
+  if (value instanceof Map) {
+    const copy = new Map();
+    copies.set(value, copy);
+    for (const [key, item] of value) {
+      copy.set(deepFreeze(key, copies), deepFreeze(item, copies));
+    }
+    return Object.freeze(copy) as T;
+  }
+  if (value instanceof Set) {
+    const copy = new Set();
+    copies.set(value, copy);
+    for (const item of value) copy.add(deepFreeze(item, copies));
+    return Object.freeze(copy) as T;
+  }
+  return value;
+}
+
+/**
+ * Creates a schema that deep-freezes the output of the given schema, so that it cannot be modified after parsing.
+ * Its output type is made readonly with `DeepReadonly`.
+ * @template T - The schema type.
+ * @param schema - The schema whose output is frozen.
+ * @returns A schema with a frozen, readonly output.
+ */
+export function readonly<T extends StandardSchemaV1>(
+  schema: T,
+): WrapperSchema<AsSchema<T>, DeepReadonly<InferOutput<T>>, InferInput<T>> {
+  const wrapped = toSchema(schema);
+  return createSchema<
+    DeepReadonly<InferOutput<T>>,
+    InferInput<T>,
+    { wrapped: AsSchema<T> }
+  >(
+    "readonly",
+    (input, options) => {
+      return then(wrapped["~validate"](input, options), (result) => {
+        if (result.issues) return result;
+        return {
+          value: deepFreeze(result.value) as DeepReadonly<InferOutput<T>>,
+        };
+      });
+    },
+    { wrapped },
+  );
+}
+
+/**
+ * Represents a schema whose definition is resolved on first use, allowing a schema to reference itself.
+ * @template T - The resolved schema type.
+ */
+export interface LazySchema<T extends Schema>
+  extends Schema<InferOutput<T>, InferInput<T>> {
+  /**
+   * Returns the resolved schema.
+   */
+  readonly getter: () => T;
+}
+
+/**
+ * An object or array being validated by a `lazy()` schema, linked to the one it is nested in.
+ */
+interface LazyAncestor {
+  readonly value: unknown;
+  readonly parent: LazyAncestor | undefined;
+}
+
+/**
+ * The innermost object or array being validated by a `lazy()` schema, keyed by the options passed down to its
+ * children. Each descent gets its own options, so sibling branches never see each other's ancestors.
+ */
+const lazyAncestors = new WeakMap<ParseOptions, LazyAncestor>();
+
+/**
+ * Creates a schema that resolves its definition on first use, so that recursive structures can reference
+ * themselves. Because TypeScript cannot infer the type of a self-referencing variable, annotate it explicitly:
+ *
+ * ```ts
+ * type Category = { name: string; children: Category[] };
+ * const category: Schema<Category> = object({
+ *   name: string(),
+ *   children: array(lazy(() => category)),
+ * });
+ * ```
+ *
+ * Inputs that contain themselves (e.g. `a.children = [a]`) fail with an issue instead of recursing forever.
+ *
+ * @template T - The resolved schema type.
+ * @param getter - A function returning the schema to validate with. It is called once, on first use.
+ * @param message - The error message to return if the input contains a circular reference.
+ * @returns A schema that validates the input with the resolved schema.
+ */
+export function lazy<T extends Schema>(
+  getter: () => T,
+  message?: string,
+): LazySchema<T> {
+  let resolved: T | undefined;
+  return createSchema<InferOutput<T>, InferInput<T>, { getter: () => T }>(
+    "lazy",
+    (value, options) => {
+      resolved ??= getter();
+      if ("object" !== typeof value || null === value) {
+        return resolved["~validate"](value, options) as MaybePromise<
+          Result<InferOutput<T>>
+        >;
+      }
+      const parent = options && lazyAncestors.get(options);
+      for (let node = parent; node; node = node.parent) {
+        if (node.value === value) {
+          return {
+            issues: [createIssue("circular", {}, value, options, message)],
+          };
+        }
+      }
+      const context = { ...options };
+      lazyAncestors.set(context, { value, parent });
+      return resolved["~validate"](value, context) as MaybePromise<
+        Result<InferOutput<T>>
+      >;
+    },
+    {
+      getter: () => resolved ??= getter(),
+    },
+  );
+}
+
+/**
+ * Represents a schema from another library that implements Standard Schema, adapted to the razr `Schema` interface.
+ * @template T - The adapted Standard Schema type.
+ */
+export interface ForeignSchema<T extends StandardSchemaV1>
+  extends Schema<InferOutput<T>, InferInput<T>> {
+  /**
+   * The adapted schema.
+   */
+  readonly standard: T;
+}
+
+/**
+ * Resolves the razr schema a Standard Schema is used as: razr schemas are used as is, other schemas are adapted with
+ * `fromStandard()`.
+ * @template T - The Standard Schema type.
+ */
+export type AsSchema<T extends StandardSchemaV1> = T extends Schema ? T
+  : ForeignSchema<T>;
+
+/**
+ * Resolves the razr schemas a tuple of Standard Schemas is used as.
+ * @template T - The tuple of Standard Schema types.
+ */
+export type AsSchemas<T extends readonly StandardSchemaV1[]> = {
+  readonly [K in keyof T]: AsSchema<T[K]>;
+};
+
+/**
+ * Adapts a schema from another library that implements Standard Schema (e.g. Zod or Valibot), giving it `parse()`,
+ * `safeParse()` and the other methods of a razr schema. Its issues are reported as is.
+ *
+ * Combinators such as `array()`, `object()` and `maybe()` adapt foreign children automatically. A foreign schema that
+ * validates asynchronously can only be parsed with `parseAsync()` or `safeParseAsync()`.
+ *
+ * @template T - The Standard Schema type.
+ * @param schema - The schema to adapt.
+ * @returns A razr schema that validates with the given schema.
+ */
+export function fromStandard<T extends StandardSchemaV1>(
+  schema: T,
+): ForeignSchema<T> {
+  type Output = InferOutput<T>;
+  return createSchema<Output, InferInput<T>, { standard: T }>(
+    "standard",
+    (input) => {
+      return then(
+        schema["~standard"].validate(input),
+        (result): Result<Output> => {
+          if (result.issues) return { issues: result.issues };
+          return { value: result.value as Output };
+        },
+      );
+    },
+    { standard: schema },
+  );
+}
+
+/**
+ * Returns the razr schema a Standard Schema child is used as.
+ * @template T - The Standard Schema type.
+ * @param schema - The child schema.
+ * @returns The schema itself if it is a razr schema, or an adapter otherwise.
+ */
+function toSchema<T extends StandardSchemaV1>(schema: T): AsSchema<T> {
+  return ("~validate" in schema ? schema : fromStandard(schema)) as AsSchema<T>;
+}